@@ -0,0 +1,37 @@
+// Server side of the /api/twitter proxy: forwards the request to RapidAPI and
+// adds the key from the RAPIDAPI_KEY environment variable, so it never ships
+// in the browser bundle.
+const RAPID_API_HOST = 'twitter154.p.rapidapi.com';
+const FUNCTION_PREFIX = /^\/(?:\.netlify\/functions\/twitter-proxy|api\/twitter)/;
+
+// Response headers worth passing back to the client (rate limiting)
+const PASSTHROUGH_HEADERS = ['content-type', 'retry-after', 'x-ratelimit-requests-limit', 'x-ratelimit-requests-remaining', 'x-ratelimit-requests-reset'];
+
+export default async (request) => {
+  if (request.method !== 'GET') {
+    return new Response(JSON.stringify({ message: 'Method not allowed' }), { status: 405 });
+  }
+
+  const apiKey = process.env.RAPIDAPI_KEY;
+  if (!apiKey) {
+    return new Response(JSON.stringify({ message: 'RAPIDAPI_KEY is not configured' }), { status: 500 });
+  }
+
+  const url = new URL(request.url);
+  const endpoint = url.pathname.replace(FUNCTION_PREFIX, '');
+
+  const upstream = await fetch(`https://${RAPID_API_HOST}${endpoint}${url.search}`, {
+    headers: {
+      'x-rapidapi-key': apiKey,
+      'x-rapidapi-host': RAPID_API_HOST,
+    },
+  });
+
+  const headers = new Headers();
+  PASSTHROUGH_HEADERS.forEach(name => {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  return new Response(upstream.body, { status: upstream.status, headers });
+};
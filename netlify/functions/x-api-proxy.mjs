@@ -0,0 +1,37 @@
+// Server side of the /api/x proxy: forwards the request to the X API v2 and
+// adds the bearer token from the X_BEARER_TOKEN environment variable. The X
+// API refuses cross-origin browser requests, and the token must not ship in
+// the browser bundle.
+const X_API_URL = 'https://api.twitter.com/2';
+const FUNCTION_PREFIX = /^\/(?:\.netlify\/functions\/x-api-proxy|api\/x)/;
+
+// Response headers worth passing back to the client (rate limiting)
+const PASSTHROUGH_HEADERS = ['content-type', 'retry-after', 'x-rate-limit-limit', 'x-rate-limit-remaining', 'x-rate-limit-reset'];
+
+export default async (request) => {
+  if (request.method !== 'GET') {
+    return new Response(JSON.stringify({ message: 'Method not allowed' }), { status: 405 });
+  }
+
+  const bearerToken = process.env.X_BEARER_TOKEN;
+  if (!bearerToken) {
+    return new Response(JSON.stringify({ message: 'X_BEARER_TOKEN is not configured' }), { status: 500 });
+  }
+
+  const url = new URL(request.url);
+  const endpoint = url.pathname.replace(FUNCTION_PREFIX, '');
+
+  const upstream = await fetch(`${X_API_URL}${endpoint}${url.search}`, {
+    headers: {
+      Authorization: `Bearer ${bearerToken}`,
+    },
+  });
+
+  const headers = new Headers();
+  PASSTHROUGH_HEADERS.forEach(name => {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  return new Response(upstream.body, { status: upstream.status, headers });
+};
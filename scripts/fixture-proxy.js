@@ -0,0 +1,71 @@
+// Local stand-in for the /api/twitter proxy. Instead of forwarding to RapidAPI
+// with a key, it answers from a fixture directory:
+//
+//   GET /api/twitter/user/details?username=sample
+//     -> <FIXTURE_DIR>/user/details.json
+//
+// Each fixture file holds a list of { query, response, status? } entries. The
+// first entry whose query values all appear in the request is returned.
+//
+// Usage: npm run proxy:fixtures   (FIXTURE_DIR, FIXTURE_PROXY_PORT to override)
+import http from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const PREFIX = '/api/twitter';
+const port = Number(process.env.FIXTURE_PROXY_PORT || 8787);
+const fixtureDir = path.resolve(process.env.FIXTURE_DIR || 'fixtures/rapidapi');
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const findFixture = async (endpoint, params) => {
+  const file = path.join(fixtureDir, `${endpoint}.json`);
+
+  // Keep requests inside the fixture directory
+  if (!file.startsWith(fixtureDir + path.sep)) return null;
+
+  let entries;
+  try {
+    entries = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+
+  return entries.find(entry =>
+    Object.entries(entry.query || {}).every(([key, value]) => params.get(key) === String(value))
+  ) || null;
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method !== 'GET' || !url.pathname.startsWith(`${PREFIX}/`)) {
+    sendJson(res, 404, { message: 'Not found' });
+    return;
+  }
+
+  const endpoint = url.pathname.slice(PREFIX.length + 1);
+
+  try {
+    const fixture = await findFixture(endpoint, url.searchParams);
+    if (!fixture) {
+      console.log(`[fixture-proxy] no fixture for ${endpoint}${url.search}`);
+      sendJson(res, 404, { message: `No fixture for ${endpoint}` });
+      return;
+    }
+
+    console.log(`[fixture-proxy] ${endpoint}${url.search}`);
+    sendJson(res, fixture.status || 200, fixture.response);
+  } catch (error) {
+    console.error(`[fixture-proxy] failed to read fixture for ${endpoint}:`, error);
+    sendJson(res, 500, { message: 'Broken fixture file' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[fixture-proxy] serving ${fixtureDir} at http://localhost:${port}${PREFIX}`);
+});
@@ -5,6 +5,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Diagnostics from "./pages/Diagnostics";
+import Trash from "./pages/Trash";
 import SavedTweets from "./components/SavedTweets";
 import SavedUsersList from "./components/SavedUsersList";
 import { Layout } from "./components/Layout";
@@ -22,6 +24,8 @@ const App = () => (
             <Route index element={<Index />} />
             <Route path="/saved" element={<SavedUsersList />} />
             <Route path="/saved/user/:username" element={<SavedTweets />} />
+            <Route path="/diagnostics" element={<Diagnostics />} />
+            <Route path="/trash" element={<Trash />} />
           </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
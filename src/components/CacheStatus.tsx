@@ -0,0 +1,40 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Clock, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CacheInfo } from '@/utils/api';
+
+interface CacheStatusProps {
+  cacheInfo: CacheInfo | null;
+  onPurge: () => void;
+  isFetching: boolean;
+}
+
+const CacheStatus: React.FC<CacheStatusProps> = ({ cacheInfo, onPurge, isFetching }) => {
+  if (!cacheInfo) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+      <Clock className="h-3 w-3" />
+      <span>
+        Cached {formatDistanceToNow(new Date(cacheInfo.storedAt), { addSuffix: true })}
+        {cacheInfo.stale && ' · refreshing in background'}
+      </span>
+      <Button
+        variant="link"
+        size="sm"
+        className="h-auto p-0 ml-1 text-xs text-muted-foreground hover:text-destructive"
+        onClick={onPurge}
+        disabled={isFetching}
+        title="Clear cached tweets for this account"
+      >
+        <Trash2 className="h-3 w-3 mr-1" />
+        Clear cache
+      </Button>
+    </div>
+  );
+};
+
+export default CacheStatus;
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Ban, Clock, FileWarning, Gauge, Lock, SearchX, ServerCrash, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FetchError } from '@/utils/errors';
+import { getDailyBudget, setDailyBudget } from '@/utils/quota';
+
+// Calls added to the daily budget by the "allow more calls" action
+const BUDGET_INCREMENT = 100;
+
+interface FetchErrorStateProps {
+  error: FetchError;
+  username: string;
+  onRetry: () => void;
+  onRefresh: () => void;   // Retry without cached data
+  onNewSearch: () => void; // Clear the results and start over
+}
+
+const formatWait = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+};
+
+// Empty state for a search that failed, with a way out that fits the failure
+const FetchErrorState: React.FC<FetchErrorStateProps> = ({ error, username, onRetry, onRefresh, onNewSearch }) => {
+  const [now, setNow] = useState(Date.now());
+  const waiting = error.kind === 'rate-limited' && !!error.resetAt && error.resetAt > now;
+
+  // Count down to the end of a rate limit
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  // Try again by itself once the connection comes back
+  useEffect(() => {
+    if (error.kind !== 'network') return;
+    window.addEventListener('online', onRetry);
+    return () => window.removeEventListener('online', onRetry);
+  }, [error.kind, onRetry]);
+
+  const handleAllowMoreCalls = () => {
+    setDailyBudget(getDailyBudget() + BUDGET_INCREMENT);
+    onRetry();
+  };
+
+  const newSearchButton = (
+    <Button onClick={onNewSearch} variant="outline">
+      Search another account
+    </Button>
+  );
+
+  let icon = <ServerCrash className="h-10 w-10" />;
+  let title = 'Something went wrong';
+  let description = error.message;
+  let actions = (
+    <Button onClick={onRetry} variant="outline">
+      Try Again
+    </Button>
+  );
+
+  switch (error.kind) {
+    case 'rate-limited':
+      icon = <Clock className="h-10 w-10" />;
+      title = 'Rate limited';
+      description = error.resetAt
+        ? `The API isn't accepting more requests until ${format(error.resetAt, 'HH:mm:ss')}.`
+        : "The API isn't accepting more requests right now.";
+      actions = (
+        <Button onClick={onRetry} variant="outline" disabled={waiting}>
+          {waiting ? `Try again in ${formatWait(error.resetAt - now)}` : 'Try Again'}
+        </Button>
+      );
+      break;
+    case 'plan-limit':
+      icon = <Gauge className="h-10 w-10" />;
+      title = 'API plan limit reached';
+      description = error.resetAt
+        ? `The API plan's request quota is used up until ${format(error.resetAt, 'PPp')}.`
+        : "The API plan's request quota is used up.";
+      break;
+    case 'user-not-found':
+      icon = <SearchX className="h-10 w-10" />;
+      title = 'Account not found';
+      description = `There is no account named @${username}. Check the spelling and try again.`;
+      actions = newSearchButton;
+      break;
+    case 'protected-account':
+      icon = <Lock className="h-10 w-10" />;
+      title = 'Protected account';
+      description = `@${username} only shares tweets with approved followers, so they can't be fetched.`;
+      actions = newSearchButton;
+      break;
+    case 'suspended':
+      icon = <Ban className="h-10 w-10" />;
+      title = 'Account suspended';
+      description = `@${username} has been suspended and its tweets are no longer available.`;
+      actions = newSearchButton;
+      break;
+    case 'quota-exhausted':
+      icon = <Gauge className="h-10 w-10" />;
+      title = 'Daily API budget reached';
+      description = `All ${getDailyBudget()} calls for today have been used. The count resets at midnight.`;
+      actions = (
+        <Button onClick={handleAllowMoreCalls} variant="outline">
+          Allow {BUDGET_INCREMENT} more calls
+        </Button>
+      );
+      break;
+    case 'malformed-response':
+      icon = <FileWarning className="h-10 w-10" />;
+      title = 'Unexpected response';
+      description = "The API answered with data we couldn't read. Fetching again without the cache usually helps.";
+      actions = (
+        <Button onClick={onRefresh} variant="outline">
+          Refresh Without Cache
+        </Button>
+      );
+      break;
+    case 'network':
+      icon = <WifiOff className="h-10 w-10" />;
+      title = "Can't reach the API";
+      description = 'Check your connection. We will try again as soon as you are back online.';
+      break;
+  }
+
+  return (
+    <div className="text-center py-10">
+      <div className="flex justify-center mb-3 text-muted-foreground">{icon}</div>
+      <h3 className="font-semibold mb-1">{title}</h3>
+      <p className="text-sm text-muted-foreground mb-4 max-w-md mx-auto">{description}</p>
+      <div className="flex justify-center gap-2">{actions}</div>
+    </div>
+  );
+};
+
+export default FetchErrorState;
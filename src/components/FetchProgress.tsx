@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { FetchProgressEvent, FetchRetryEvent, TwitterConfig } from '@/utils/api';
+import { FetchProgressState } from '@/hooks/use-fetch-progress';
+
+interface FetchProgressProps {
+  state: FetchProgressState | null;
+  compact?: boolean;
+}
+
+// Completed and planned steps: user lookup, initial page, one per reply
+// crawl, one per continuation and one per gap repair lookup
+const getSteps = (state: FetchProgressState): { done: number; total: number } => {
+  const { progress } = state;
+  const replyCrawls = state.replyCrawls ?? TwitterConfig.threadsToProcess;
+  const continuations = TwitterConfig.maxContinuations;
+  const gapLookups = TwitterConfig.gapRepairBudget;
+  const total = 2 + replyCrawls + continuations + gapLookups;
+
+  switch (progress.phase) {
+    case 'user':
+      return { done: 0, total };
+    case 'initial':
+      return { done: 1, total };
+    case 'replies':
+      return { done: 2 + (progress.current || 1) - 1, total };
+    case 'continuation':
+      return { done: 2 + replyCrawls + (progress.current || 1) - 1, total };
+    case 'gaps':
+      return { done: 2 + replyCrawls + continuations + (progress.current || 1) - 1, total };
+    default:
+      return { done: total, total };
+  }
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+};
+
+const describePhase = (progress: FetchProgressEvent): string => {
+  const page = progress.page ? `, page ${progress.page}` : '';
+
+  switch (progress.phase) {
+    case 'user':
+      return 'Looking up user';
+    case 'initial':
+      return 'Fetching latest tweets';
+    case 'replies':
+      return `Crawling replies ${progress.current} of ${progress.total} (tweet ${progress.tweetId}${page})`;
+    case 'continuation':
+      return progress.tweetId
+        ? `Continuation ${progress.current} of ${progress.total}: replies to tweet ${progress.tweetId}${page}`
+        : `Fetching older tweets, continuation ${progress.current} of ${progress.total}`;
+    case 'gaps':
+      return `Filling gaps in threads, lookup ${progress.current} of ${progress.total} (tweet ${progress.tweetId})`;
+    default:
+      return 'Finishing up';
+  }
+};
+
+const describeRetry = (retry: FetchRetryEvent): string => {
+  const wait = formatDuration(retry.delayMs);
+  return retry.reason === 'rate-limit'
+    ? `Rate limited, backing off ${wait} (retry ${retry.attempt} of ${retry.maxAttempts})`
+    : `Request failed, retrying in ${wait} (attempt ${retry.attempt + 1} of ${retry.maxAttempts})`;
+};
+
+const FetchProgress: React.FC<FetchProgressProps> = ({ state, compact = false }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second so elapsed and remaining time stay current
+  useEffect(() => {
+    if (!state) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  if (!state) {
+    return null;
+  }
+
+  const { done, total } = getSteps(state);
+  const elapsed = Math.max(0, now - state.startedAt);
+  const percent = total > 0 ? Math.min(100, Math.round((done / total) * 100)) : 0;
+  // Assumes the remaining steps take as long as the average one so far
+  const remaining = done > 0 ? (elapsed / done) * (total - done) : null;
+
+  return (
+    <div className={`border rounded-lg bg-white/80 ${compact ? 'p-3 mb-4' : 'p-4 sm:p-6 my-10'}`}>
+      <div className="flex items-center gap-2 text-sm font-medium mb-2">
+        <Loader2 className="h-4 w-4 animate-spin text-twitter" />
+        <span className="truncate">{describePhase(state.progress)}</span>
+      </div>
+
+      <Progress value={percent} className="h-2" />
+
+      <div className="flex justify-between text-xs text-muted-foreground mt-2">
+        <span>
+          {state.tweetCount} tweets · {formatDuration(elapsed)} elapsed
+        </span>
+        <span>
+          {remaining !== null ? `about ${formatDuration(remaining)} remaining` : 'estimating...'}
+        </span>
+      </div>
+
+      {state.retry && (
+        <div className="flex items-center gap-1 text-xs text-amber-600 mt-2">
+          <AlertTriangle className="h-3 w-3" />
+          {describeRetry(state.retry)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FetchProgress;
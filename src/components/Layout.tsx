@@ -1,12 +1,22 @@
 import React, { useEffect, useState } from 'react';
 import { Outlet, Link, useLocation } from 'react-router-dom';
-import { Search, Database, Home, User, Users, Menu, X } from 'lucide-react';
+import { Search, Database, Home, User, Users, Menu, X, AlertTriangle, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import QuotaMeter from '@/components/QuotaMeter';
+import SaveOutbox from '@/components/SaveOutbox';
+import { usePayloadDiagnostics } from '@/hooks/use-payload-diagnostics';
+import { useQueryClient } from '@tanstack/react-query';
+import { savedKeys, useSyncSavedTweets } from '@/hooks/use-saved-tweets';
+import { getStorageMode } from '@/utils/savedStore';
+import { startOutboxRetries } from '@/utils/outbox';
 
 export const Layout = () => {
   const location = useLocation();
   const [username, setUsername] = useState<string | null>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const diagnostics = usePayloadDiagnostics();
+  const { mutate: syncSaved } = useSyncSavedTweets();
+  const queryClient = useQueryClient();
   
   // Load username from session storage
   useEffect(() => {
@@ -15,11 +25,35 @@ export const Layout = () => {
       setUsername(savedUser);
     }
   }, [location.pathname]);
+
+  // Catch up with changes made on other devices when the app opens
+  useEffect(() => {
+    if (getStorageMode() === 'sync') {
+      syncSaved();
+    }
+  }, [syncSaved]);
+
+  // Send queued saves once they are due or the connection comes back
+  useEffect(() => {
+    return startOutboxRetries(() => queryClient.invalidateQueries({ queryKey: savedKeys.all }));
+  }, [queryClient]);
   
   const isActive = (path: string) => {
     return location.pathname === path;
   };
 
+  // Only shown once the provider has sent records we had to skip
+  const diagnosticsLink = diagnostics.total > 0 && (
+    <Link
+      to="/diagnostics"
+      className="flex items-center gap-1 rounded-md px-2 py-1 text-xs text-amber-600 transition-colors hover:bg-muted"
+      title="Invalid records from the tweet provider"
+    >
+      <AlertTriangle className="h-4 w-4" />
+      <span>{diagnostics.total}</span>
+    </Link>
+  );
+
   const toggleMobileMenu = () => {
     setMobileMenuOpen(!mobileMenuOpen);
   };
@@ -34,18 +68,24 @@ export const Layout = () => {
             </Link>
           </div>
           
-          {/* Mobile menu button */}
-          <button 
-            onClick={toggleMobileMenu}
-            className="md:hidden flex items-center p-2 rounded-md"
-            aria-label={mobileMenuOpen ? "Close menu" : "Open menu"}
-          >
-            {mobileMenuOpen ? (
-              <X className="h-6 w-6" />
-            ) : (
-              <Menu className="h-6 w-6" />
-            )}
-          </button>
+          <div className="flex items-center gap-1 md:hidden">
+            <SaveOutbox />
+            {diagnosticsLink}
+            <QuotaMeter />
+            
+            {/* Mobile menu button */}
+            <button 
+              onClick={toggleMobileMenu}
+              className="flex items-center p-2 rounded-md"
+              aria-label={mobileMenuOpen ? "Close menu" : "Open menu"}
+            >
+              {mobileMenuOpen ? (
+                <X className="h-6 w-6" />
+              ) : (
+                <Menu className="h-6 w-6" />
+              )}
+            </button>
+          </div>
           
           {/* Desktop navigation */}
           <nav className="hidden md:flex items-center space-x-2 text-sm font-medium">
@@ -87,6 +127,21 @@ export const Layout = () => {
                 <span>{username}'s Tweets</span>
               </Link>
             )}
+            <Link
+              to="/trash"
+              className={cn(
+                "flex items-center rounded-md px-3 py-2 transition-colors hover:text-foreground",
+                isActive("/trash")
+                  ? "bg-muted text-foreground"
+                  : "text-muted-foreground"
+              )}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              <span>Trash</span>
+            </Link>
+            <SaveOutbox />
+            {diagnosticsLink}
+            <QuotaMeter />
           </nav>
         </div>
         
@@ -134,6 +189,19 @@ export const Layout = () => {
                 <span>{username}'s Tweets</span>
               </Link>
             )}
+            <Link
+              to="/trash"
+              className={cn(
+                "flex items-center rounded-md px-4 py-3 transition-colors hover:text-foreground",
+                isActive("/trash")
+                  ? "bg-muted text-foreground"
+                  : "text-muted-foreground"
+              )}
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              <Trash2 className="mr-2 h-5 w-5" />
+              <span>Trash</span>
+            </Link>
           </nav>
         )}
       </header>
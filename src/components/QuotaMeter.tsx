@@ -0,0 +1,62 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { useQuota } from '@/hooks/use-quota';
+import { cn } from '@/lib/utils';
+
+// Header widget showing today's API calls against the daily budget
+const QuotaMeter = () => {
+  const { usage, budget, remaining, exhausted } = useQuota();
+  const percent = Math.min(100, Math.round((usage.total / budget) * 100));
+  const endpoints = Object.entries(usage.byEndpoint).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-2 rounded-md px-2 py-1 text-xs transition-colors hover:bg-muted",
+            exhausted ? "text-destructive" : percent >= 80 ? "text-amber-600" : "text-muted-foreground"
+          )}
+          title="API calls used today"
+        >
+          <Gauge className="h-4 w-4" />
+          <span>{usage.total}/{budget}</span>
+          <Progress value={percent} className="hidden sm:block h-1.5 w-16" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <div className="space-y-3">
+          <div>
+            <div className="text-sm font-medium">API calls today</div>
+            <div className="text-xs text-muted-foreground">
+              {usage.total} of {budget} used · {remaining} remaining
+            </div>
+          </div>
+
+          <Progress value={percent} className="h-2" />
+
+          {endpoints.length > 0 ? (
+            <ul className="space-y-1 text-xs">
+              {endpoints.map(([endpoint, count]) => (
+                <li key={endpoint} className="flex justify-between gap-2">
+                  <span className="truncate font-mono">{endpoint}</span>
+                  <span>{count}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">No calls made today.</p>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Change the daily budget in the fetch settings.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default QuotaMeter;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import MediaDisplay from './MediaDisplay';
+import { EmbeddedTweet } from '@/utils/referencedTweets';
+
+interface QuotedTweetCardProps {
+  quoted: EmbeddedTweet;
+  // Smaller text and avatar, for tweets inside a thread
+  compact?: boolean;
+}
+
+const formatDate = (dateStr?: string) => {
+  if (!dateStr) return null;
+  try {
+    return formatDistanceToNow(new Date(dateStr), { addSuffix: true });
+  } catch (error) {
+    return null;
+  }
+};
+
+// A quoted tweet embedded in the tweet that quotes it
+const QuotedTweetCard: React.FC<QuotedTweetCardProps> = ({ quoted, compact = false }) => {
+  const date = formatDate(quoted.created_at);
+
+  return (
+    <div className={`border border-gray-200 rounded-lg bg-gray-50 ${compact ? 'p-3' : 'p-3 sm:p-4'}`}>
+      <div className="flex items-center mb-2">
+        {quoted.author?.profile_image_url && (
+          <img 
+            src={quoted.author.profile_image_url} 
+            alt={quoted.author.name || 'Quoted user'} 
+            className={`rounded-full mr-2 object-cover ${compact ? 'w-6 h-6' : 'w-6 h-6 sm:w-8 sm:h-8'}`}
+            loading="lazy"
+            onError={(e) => {
+              e.currentTarget.onerror = null;
+              e.currentTarget.src = 'https://abs.twimg.com/sticky/default_profile_images/default_profile_normal.png';
+            }}
+          />
+        )}
+        <div className="min-w-0">
+          <div className={`font-semibold truncate ${compact ? 'text-xs' : 'text-xs sm:text-sm'}`}>
+            {quoted.author?.name || 'Quoted tweet'}
+          </div>
+          <div className="text-xs text-muted-foreground truncate">
+            {quoted.author?.username && `@${quoted.author.username}`}
+            {quoted.author?.username && date && ' · '}
+            {date}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs sm:text-sm text-foreground whitespace-pre-line break-words">
+        {quoted.text}
+      </p>
+      {quoted.media && quoted.media.length > 0 && (
+        <div className={compact ? 'mt-2' : 'mt-2 sm:mt-3'}>
+          <MediaDisplay media={quoted.media} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuotedTweetCard;
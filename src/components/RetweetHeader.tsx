@@ -0,0 +1,21 @@
+import React from 'react';
+import { Repeat2 } from 'lucide-react';
+import { Tweet } from '@/utils/types';
+
+interface RetweetHeaderProps {
+  tweet: Tweet;
+}
+
+// "X retweeted" above a retweet, on cards and inside threads alike
+const RetweetHeader: React.FC<RetweetHeaderProps> = ({ tweet }) => {
+  if (!tweet.is_retweet) return null;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground font-medium">
+      <Repeat2 className="h-4 w-4" />
+      <span>{tweet.author?.name || `@${tweet.author?.username}`} retweeted</span>
+    </div>
+  );
+};
+
+export default RetweetHeader;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CloudUpload, Loader2, RotateCw, Trash2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useSaveOutbox } from '@/hooks/use-save-outbox';
+import { OutboxBatch } from '@/utils/outbox';
+
+const describeNextAttempt = (batch: OutboxBatch) => {
+  if (!batch.nextAttemptAt) return 'Needs a manual retry';
+  const next = new Date(batch.nextAttemptAt);
+  return next.getTime() <= Date.now()
+    ? 'Retrying when online'
+    : `Next retry ${formatDistanceToNow(next, { addSuffix: true })}`;
+};
+
+// Header badge for saves waiting in the outbox, with a panel to retry or
+// discard each batch. Hidden while the outbox is empty.
+const SaveOutbox = () => {
+  const { batches, pendingTweets, retry, retryAll, discard } = useSaveOutbox();
+  const [retrying, setRetrying] = useState<Record<string, boolean>>({});
+  const { toast } = useToast();
+
+  if (batches.length === 0) return null;
+
+  const handleRetry = async (batch: OutboxBatch) => {
+    setRetrying(prev => ({ ...prev, [batch.id]: true }));
+    const saved = await retry(batch.id);
+    setRetrying(prev => ({ ...prev, [batch.id]: false }));
+
+    toast(saved
+      ? { title: 'Tweets Saved', description: `${batch.tweets.length} queued tweets saved for @${batch.username}.` }
+      : { title: 'Still Failing', description: 'The backend is still unavailable. The batch stays queued.', variant: 'destructive' }
+    );
+  };
+
+  const handleRetryAll = async () => {
+    setRetrying(prev => ({ ...prev, all: true }));
+    const saved = await retryAll();
+    setRetrying(prev => ({ ...prev, all: false }));
+    toast({ title: 'Retried Queued Saves', description: `${saved} of ${batches.length} batches saved.` });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="flex items-center gap-1 rounded-md px-2 py-1 text-xs text-amber-600 transition-colors hover:bg-muted"
+          title="Saves waiting to be sent"
+        >
+          <CloudUpload className="h-4 w-4" />
+          <span>{pendingTweets}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="space-y-3">
+          <div>
+            <div className="text-sm font-medium">Pending saves</div>
+            <div className="text-xs text-muted-foreground">
+              {pendingTweets} tweets in {batches.length} {batches.length === 1 ? 'batch' : 'batches'} couldn't be saved yet
+            </div>
+          </div>
+
+          <ul className="space-y-2 max-h-72 overflow-auto">
+            {batches.map(batch => (
+              <li key={batch.id} className="rounded-md border p-2 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">@{batch.username} · {batch.tweets.length} tweets</span>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Retry now"
+                      onClick={() => handleRetry(batch)}
+                      disabled={retrying[batch.id] || retrying.all}
+                    >
+                      {retrying[batch.id] ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCw className="h-3 w-3" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 text-destructive"
+                      title="Discard"
+                      onClick={() => discard(batch.id)}
+                      disabled={retrying[batch.id]}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="text-muted-foreground">
+                  Queued {formatDistanceToNow(new Date(batch.queuedAt), { addSuffix: true })}
+                  {batch.attempts > 0 && ` · ${batch.attempts} ${batch.attempts === 1 ? 'attempt' : 'attempts'}`}
+                </div>
+                <div className="text-muted-foreground">{describeNextAttempt(batch)}</div>
+                {batch.lastError && <div className="truncate text-destructive" title={batch.lastError}>{batch.lastError}</div>}
+              </li>
+            ))}
+          </ul>
+
+          <Button variant="outline" size="sm" className="w-full" onClick={handleRetryAll} disabled={retrying.all}>
+            {retrying.all ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCw className="mr-2 h-4 w-4" />}
+            Retry all
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SaveOutbox;
@@ -1,23 +1,21 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import TweetCard from '@/components/TweetCard';
 import TweetThread from '@/components/TweetThread';
 import { Button } from '@/components/ui/button';
 import { Tweet, TweetCategory, Thread } from '@/utils/types';
+import { ApiResponse } from '@/utils/types';
+import { useDeleteSavedTweets, useSavedTweets } from '@/hooks/use-saved-tweets';
+import { useUndoDelete } from '@/hooks/use-trash';
+import { ToastAction } from '@/components/ui/toast';
+import { isTrashError, TRASH_RETENTION_DAYS, TrashKind } from '@/utils/trash';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Database, Trash2, User, ArrowLeft, MessageSquare, FileText, Rows3, MessagesSquare } from 'lucide-react';
+import { Loader2, Database, Trash2, User, ArrowLeft, MessageSquare, FileText, Rows3, MessagesSquare, CheckSquare, X } from 'lucide-react';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from 'date-fns';
 
-interface ApiResponse {
-  success: boolean;
-  count: number;
-  data: (Tweet | Thread)[];
-}
-
-const BACKEND_API_URL = 'https://twitter-aee7.onrender.com/api/tweets';
-
 interface SavedTweetsProps {
   username?: string;
 }
@@ -38,250 +36,244 @@ const parseTwitterDate = (twitterDate: string): Date => {
   return new Date(twitterDate);
 };
 
-const SavedTweets: React.FC<SavedTweetsProps> = ({ username }) => {
-  const [savedTweets, setSavedTweets] = useState<Tweet[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isDeleting, setIsDeleting] = useState<Record<string, boolean>>({});
-  const [activeCategory, setActiveCategory] = useState<TweetCategory | 'all'>('all');
-  const { toast } = useToast();
-  const params = useParams<{ username?: string }>();
-  const userParam = params.username || username;
-  const navigate = useNavigate();
-  const [directThreads, setThreads] = useState<Thread[]>([]);
-
-  useEffect(() => {
-    fetchSavedTweets();
-  }, [userParam]);
-
-  const fetchSavedTweets = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const endpoint = userParam 
-        ? `${BACKEND_API_URL}/saved/user/${userParam}` 
-        : `${BACKEND_API_URL}/saved`;
-      
-      console.log(`Fetching saved tweets from: ${endpoint}`);
-      const response = await fetch(endpoint);
-      
-      if (!response.ok) {
-        throw new Error(`Error: ${response.status}`);
-      }
-      
-      const data: ApiResponse = await response.json();
-      
-      console.log('Received saved tweets from backend:', {
-        success: data.success,
-        count: data.count,
-        dataLength: data.data?.length || 0
-      });
-      
-      if (!data.data || data.data.length === 0) {
-        console.log('No saved tweets returned from backend');
-        setSavedTweets([]);
-        setThreads([]);
-        return;
-      }
-      
-      // Process the data - could be either individual tweets or thread objects
-      let processedData: Tweet[] = [];
-      let threadObjects: Thread[] = [];
-      const processedTweetIds = new Set<string>(); // Track which tweets are already in threads
+// Split what the backend returns into individual tweets and threads,
+// newest first
+const splitSavedItems = (data: ApiResponse): { tweets: Tweet[]; threads: Thread[] } => {
+  console.log('Received saved tweets from backend:', {
+    success: data.success,
+    count: data.count,
+    dataLength: data.data?.length || 0
+  });
+  
+  if (!data.data || data.data.length === 0) {
+    console.log('No saved tweets returned from backend');
+    return { tweets: [], threads: [] };
+  }
+  
+  // Process the data - could be either individual tweets or thread objects
+  let processedData: Tweet[] = [];
+  let threadObjects: Thread[] = [];
+  const processedTweetIds = new Set<string>(); // Track which tweets are already in threads
+  
+  // Sort all data by creation date first (newest first)
+  const sortedData = [...data.data].sort((a, b) => {
+    // Both are tweets or both are threads
+    const aDate = new Date('created_at' in a ? a.created_at : a.tweets[0].created_at).getTime();
+    const bDate = new Date('created_at' in b ? b.created_at : b.tweets[0].created_at).getTime();
+    
+    if (isNaN(aDate) || isNaN(bDate)) {
+      // Fallback to ID comparison if dates can't be parsed
+      const aId = 'id' in a ? a.id : (a as Thread).tweets[0].id;
+      const bId = 'id' in b ? b.id : (b as Thread).tweets[0].id;
+      return Number(BigInt(bId) - BigInt(aId));
+    }
+    
+    return bDate - aDate; // Newest first
+  });
+  
+  // First process threads
+  sortedData.forEach(item => {
+    if ('tweets' in item && Array.isArray(item.tweets) && item.tweets.length > 0) {
+      // This is a thread object
+      console.log(`Processing thread ${item.id} with ${item.tweets.length} tweets`);
       
-      // Sort all data by creation date first (newest first)
-      const sortedData = [...data.data].sort((a, b) => {
-        // Both are tweets or both are threads
-        const aDate = new Date('created_at' in a ? a.created_at : a.tweets[0].created_at).getTime();
-        const bDate = new Date('created_at' in b ? b.created_at : b.tweets[0].created_at).getTime();
-        
-        if (isNaN(aDate) || isNaN(bDate)) {
-          // Fallback to ID comparison if dates can't be parsed
-          const aId = 'id' in a ? a.id : (a as Thread).tweets[0].id;
-          const bId = 'id' in b ? b.id : (b as Thread).tweets[0].id;
-          return Number(BigInt(bId) - BigInt(aId));
+      // Sort tweets within the thread by thread position or date
+      const sortedThreadTweets = [...item.tweets].sort((a, b) => {
+        // First by thread_position if available
+        if (a.thread_position !== undefined && b.thread_position !== undefined) {
+          return a.thread_position - b.thread_position;
         }
         
-        return bDate - aDate; // Newest first
-      });
-      
-      // First process threads
-      sortedData.forEach(item => {
-        if ('tweets' in item && Array.isArray(item.tweets) && item.tweets.length > 0) {
-          // This is a thread object
-          console.log(`Processing thread ${item.id} with ${item.tweets.length} tweets`);
-          
-          // Sort tweets within the thread by thread position or date
-          const sortedThreadTweets = [...item.tweets].sort((a, b) => {
-            // First by thread_position if available
-            if (a.thread_position !== undefined && b.thread_position !== undefined) {
-              return a.thread_position - b.thread_position;
-            }
-            
-            if (a.thread_index !== undefined && b.thread_index !== undefined) {
-              return a.thread_index - b.thread_index;
-            }
-            
-            // Then try by created_at
-            try {
-              return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-            } catch (e) {
-              // Fallback to ID comparison for chronological order
-              return Number(BigInt(a.id) - BigInt(b.id));
-            }
-          });
-          
-          // Create a new thread object with sorted tweets
-          const thread: Thread = {
-            ...item,
-            tweets: sortedThreadTweets
-          };
-          
-          threadObjects.push(thread);
-          
-          // Mark all tweets in this thread as processed
-          sortedThreadTweets.forEach(tweet => {
-            processedTweetIds.add(tweet.id);
-          });
-        }
-      });
-      
-      // Then process individual tweets, excluding those already in threads
-      sortedData.forEach(item => {
-        if (!('tweets' in item) && !processedTweetIds.has(item.id)) {
-          // Add additional debugging for potential tweet type issues
-          if (!item.id || !item.created_at) {
-            console.warn('Found invalid tweet object:', item);
-          } else {
-            processedData.push(item as Tweet);
-          }
+        if (a.thread_index !== undefined && b.thread_index !== undefined) {
+          return a.thread_index - b.thread_index;
         }
-      });
-      
-      console.log(`Processed ${processedData.length} individual tweets and ${threadObjects.length} threads`);
-      
-      // Sort individual tweets by date (newest first)
-      processedData.sort((a, b) => {
+        
+        // Then try by created_at
         try {
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+          return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
         } catch (e) {
-          // Fallback to ID comparison
-          return Number(BigInt(b.id) - BigInt(a.id));
+          // Fallback to ID comparison for chronological order
+          return Number(BigInt(a.id) - BigInt(b.id));
         }
       });
       
-      // Debug check for savedAt property
-      const hasSavedAt = processedData.some(tweet => tweet.savedAt);
-      console.log(`Individual tweets have savedAt property: ${hasSavedAt}`);
+      // Create a new thread object with sorted tweets
+      const thread: Thread = {
+        ...item,
+        tweets: sortedThreadTweets
+      };
       
-      if (threadObjects.length > 0) {
-        const firstThread = threadObjects[0];
-        const threadHasSavedAt = firstThread.savedAt !== undefined;
-        const threadsHaveSavedAt = threadObjects.some(thread => thread.savedAt !== undefined);
-        console.log(`First thread has savedAt: ${threadHasSavedAt}, any thread has savedAt: ${threadsHaveSavedAt}`);
-        
-        if (firstThread.tweets && firstThread.tweets.length > 0) {
-          const firstTweetInThread = firstThread.tweets[0];
-          console.log(`First tweet in first thread: ${JSON.stringify({
-            id: firstTweetInThread.id,
-            date: firstTweetInThread.created_at,
-            hasSavedAt: firstTweetInThread.savedAt !== undefined,
-            threadId: firstTweetInThread.thread_id,
-            threadIndex: firstTweetInThread.thread_index
-          })}`);
-        }
-      }
+      threadObjects.push(thread);
       
-      // Set both the individual tweets and thread objects
-      setSavedTweets(processedData);
-      setThreads(threadObjects);
-    } catch (error) {
-      console.error('Error fetching saved tweets:', error);
+      // Mark all tweets in this thread as processed
+      sortedThreadTweets.forEach(tweet => {
+        processedTweetIds.add(tweet.id);
+      });
+    }
+  });
+  
+  // Then process individual tweets, excluding those already in threads
+  sortedData.forEach(item => {
+    if (!('tweets' in item) && !processedTweetIds.has(item.id)) {
+      // Add additional debugging for potential tweet type issues
+      if (!item.id || !item.created_at) {
+        console.warn('Found invalid tweet object:', item);
+      } else {
+        processedData.push(item as Tweet);
+      }
+    }
+  });
+  
+  console.log(`Processed ${processedData.length} individual tweets and ${threadObjects.length} threads`);
+  
+  // Sort individual tweets by date (newest first)
+  processedData.sort((a, b) => {
+    try {
+      return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    } catch (e) {
+      // Fallback to ID comparison
+      return Number(BigInt(b.id) - BigInt(a.id));
+    }
+  });
+  
+  // Debug check for savedAt property
+  const hasSavedAt = processedData.some(tweet => tweet.savedAt);
+  console.log(`Individual tweets have savedAt property: ${hasSavedAt}`);
+  
+  if (threadObjects.length > 0) {
+    const firstThread = threadObjects[0];
+    const threadHasSavedAt = firstThread.savedAt !== undefined;
+    const threadsHaveSavedAt = threadObjects.some(thread => thread.savedAt !== undefined);
+    console.log(`First thread has savedAt: ${threadHasSavedAt}, any thread has savedAt: ${threadsHaveSavedAt}`);
+    
+    if (firstThread.tweets && firstThread.tweets.length > 0) {
+      const firstTweetInThread = firstThread.tweets[0];
+      console.log(`First tweet in first thread: ${JSON.stringify({
+        id: firstTweetInThread.id,
+        date: firstTweetInThread.created_at,
+        hasSavedAt: firstTweetInThread.savedAt !== undefined,
+        threadId: firstTweetInThread.thread_id,
+        threadIndex: firstTweetInThread.thread_index
+      })}`);
+    }
+  }
+  
+  return { tweets: processedData, threads: threadObjects };
+};
+
+const SavedTweets: React.FC<SavedTweetsProps> = ({ username }) => {
+  const [isDeleting, setIsDeleting] = useState<Record<string, boolean>>({});
+  const [activeCategory, setActiveCategory] = useState<TweetCategory | 'all'>('all');
+  const [selectedTweets, setSelectedTweets] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+  const params = useParams<{ username?: string }>();
+  const userParam = params.username || username;
+  const navigate = useNavigate();
+  const savedQuery = useSavedTweets(userParam);
+  const deleteSaved = useDeleteSavedTweets();
+  const undoDelete = useUndoDelete();
+  const isLoading = savedQuery.isLoading;
+
+  // Deletes update the query data optimistically, so both lists stay in step
+  const { tweets: savedTweets, threads: directThreads } = useMemo(
+    () => savedQuery.data ? splitSavedItems(savedQuery.data) : { tweets: [], threads: [] },
+    [savedQuery.data]
+  );
+
+  // Every saved tweet on the page, threads included, to look up selections
+  const allSavedTweets = useMemo(
+    () => directThreads.flatMap(thread => thread.tweets).concat(savedTweets),
+    [directThreads, savedTweets]
+  );
+
+  useEffect(() => {
+    if (savedQuery.error) {
+      console.error('Error fetching saved tweets:', savedQuery.error);
       toast({
         title: 'Error',
         description: 'Failed to fetch saved tweets',
         variant: 'destructive',
       });
-    } finally {
-      setIsLoading(false);
     }
-  }, [userParam, toast]);
+  }, [savedQuery.error, toast]);
+
+  // Move tweets to the trash and report exactly which ones went. Tweets the
+  // backend kept stay on screen (and selected) so they can be retried.
+  const deleteTweets = async (tweets: Tweet[], kind: TrashKind, label: string) => {
+    const ids = tweets.map(tweet => tweet.id);
+    setIsDeleting(prev => ({ ...prev, ...Object.fromEntries(ids.map(id => [id, true])) }));
 
-  const handleDeleteTweet = async (id: string) => {
-    setIsDeleting(prev => ({ ...prev, [id]: true }));
     try {
-      const response = await fetch(`${BACKEND_API_URL}/${id}`, {
-        method: 'DELETE',
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Error deleting tweet: ${response.status}`);
+      const result = await deleteSaved.mutateAsync({ tweets, kind, label, username: userParam });
+      const deleted = new Set(result.deleted);
+      setSelectedTweets(prev => new Set(Array.from(prev).filter(id => !deleted.has(id))));
+
+      const { trashEntry } = result;
+      const undo = trashEntry && (
+        <ToastAction altText="Undo delete" onClick={() => undoDelete(trashEntry)}>Undo</ToastAction>
+      );
+
+      if (result.failed.length === 0) {
+        toast({
+          title: trashEntry ? 'Moved to Trash' : 'Deleted permanently',
+          description: `${label} removed from saved collection`,
+          action: undo || undefined,
+        });
+      } else {
+        console.error('Some tweets could not be deleted:', result.failed);
+        toast({
+          title: 'Partially Deleted',
+          description: `Deleted ${result.deleted.length} of ${ids.length} tweets. ${result.failed.length} could not be deleted and are still shown.`,
+          variant: 'destructive',
+          action: undo || undefined,
+        });
       }
-      
-      setSavedTweets(prev => prev.filter(tweet => tweet.id !== id));
-      
-      toast({
-        title: 'Success',
-        description: 'Tweet removed from saved collection',
-      });
     } catch (error) {
-      console.error('Error deleting tweet:', error);
+      console.error('Error deleting saved tweets:', error);
       toast({
         title: 'Error',
-        description: 'Failed to delete saved tweet',
+        description: isTrashError(error) ? error.message : `Failed to delete ${label.toLowerCase()}`,
         variant: 'destructive',
       });
     } finally {
-      setIsDeleting(prev => ({ ...prev, [id]: false }));
+      setIsDeleting(prev => ({ ...prev, ...Object.fromEntries(ids.map(id => [id, false])) }));
     }
   };
 
-  const handleDeleteThread = async (thread: Thread) => {
-    // Mark all tweets in the thread as deleting
-    const updatedIsDeleting = { ...isDeleting };
-    thread.tweets.forEach(tweet => {
-      updatedIsDeleting[tweet.id] = true;
-    });
-    setIsDeleting(updatedIsDeleting);
-    
-    try {
-      // Delete each tweet in the thread
-      const deletePromises = thread.tweets.map(tweet => 
-        fetch(`${BACKEND_API_URL}/${tweet.id}`, {
-          method: 'DELETE',
-        })
-      );
-      
-      // Wait for all delete operations to complete
-      const results = await Promise.all(deletePromises);
-      
-      // Check if any operations failed
-      if (results.some(response => !response.ok)) {
-        throw new Error("Some tweets could not be deleted");
+  const handleDeleteTweet = (tweet: Tweet) => deleteTweets([tweet], 'tweet', 'Tweet');
+
+  const handleDeleteThread = (thread: Thread) =>
+    deleteTweets(thread.tweets, 'thread', `Thread with ${thread.tweets.length} tweets`);
+
+  const handleDeleteSelected = () => {
+    const tweets = allSavedTweets.filter(tweet => selectedTweets.has(tweet.id));
+    return deleteTweets(tweets, 'selection', `${tweets.length} selected tweets`);
+  };
+
+  const handleTweetSelect = (tweet: Tweet) => {
+    setSelectedTweets(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(tweet.id)) {
+        newSet.delete(tweet.id);
+      } else {
+        newSet.add(tweet.id);
       }
-      
-      // Update state to remove the deleted tweets
-      setSavedTweets(prev => prev.filter(tweet => 
-        !thread.tweets.some(threadTweet => threadTweet.id === tweet.id)
-      ));
-      
-      toast({
-        title: 'Success',
-        description: `Thread with ${thread.tweets.length} tweets removed`,
-      });
-    } catch (error) {
-      console.error('Error deleting thread:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to delete thread completely',
-        variant: 'destructive',
-      });
-    } finally {
-      // Clear the deleting state for all tweets in the thread
-      const clearedIsDeleting = { ...isDeleting };
+      return newSet;
+    });
+  };
+
+  const handleThreadSelect = (thread: Thread, select: boolean) => {
+    setSelectedTweets(prev => {
+      const newSet = new Set(prev);
       thread.tweets.forEach(tweet => {
-        clearedIsDeleting[tweet.id] = false;
+        if (select) {
+          newSet.add(tweet.id);
+        } else {
+          newSet.delete(tweet.id);
+        }
       });
-      setIsDeleting(clearedIsDeleting);
-    }
+      return newSet;
+    });
   };
 
   const handleBack = () => {
@@ -483,6 +475,21 @@ const SavedTweets: React.FC<SavedTweetsProps> = ({ username }) => {
     return { displayThreads, displayTweets };
   }, [threads, normalTweets, longTweets, activeCategory]);
 
+  // Every tweet in the current tab, threads included
+  const visibleTweetIds = useMemo(
+    () => displayThreads.flatMap(thread => thread.tweets.map(tweet => tweet.id)).concat(displayTweets.map(tweet => tweet.id)),
+    [displayThreads, displayTweets]
+  );
+  const allVisibleSelected = visibleTweetIds.length > 0 && visibleTweetIds.every(id => selectedTweets.has(id));
+
+  const handleSelectAll = () => {
+    setSelectedTweets(prev => {
+      const newSet = new Set(prev);
+      visibleTweetIds.forEach(id => allVisibleSelected ? newSet.delete(id) : newSet.add(id));
+      return newSet;
+    });
+  };
+
   // Format tweet date for display
   const formatTweetDate = (dateString: string): string => {
     try {
@@ -625,6 +632,55 @@ const SavedTweets: React.FC<SavedTweetsProps> = ({ username }) => {
                 ))}
               </TabsList>
 
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <span className="text-sm text-muted-foreground">
+                  {selectedTweets.size > 0 ? `${selectedTweets.size} selected` : 'Select tweets to delete several at once'}
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={handleSelectAll} variant="outline" size="sm" disabled={visibleTweetIds.length === 0}>
+                    <CheckSquare className="mr-1 h-4 w-4" />
+                    {allVisibleSelected ? 'Deselect All' : 'Select All'}
+                  </Button>
+                  {selectedTweets.size > 0 && (
+                    <>
+                      <Button onClick={() => setSelectedTweets(new Set())} variant="outline" size="sm">
+                        <X className="mr-1 h-4 w-4" />
+                        Clear Selection
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="destructive" size="sm" disabled={deleteSaved.isPending}>
+                            {deleteSaved.isPending ? (
+                              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Trash2 className="mr-1 h-4 w-4" />
+                            )}
+                            Delete Selected
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {selectedTweets.size} selected tweets?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              They will be moved to the trash, where you can restore them for {TRASH_RETENTION_DAYS} days.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={handleDeleteSelected}
+                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </>
+                  )}
+                </div>
+              </div>
+
               <TabsContent value={activeCategory} className="mt-0">
                 {(activeCategory === 'thread' && displayThreads.length === 0) || 
                  (activeCategory !== 'thread' && displayTweets.length === 0 && 
@@ -650,9 +706,9 @@ const SavedTweets: React.FC<SavedTweetsProps> = ({ username }) => {
                           <div key={thread.id} className="relative group mb-4">
                             <TweetThread 
                               thread={thread} 
-                              selectedTweets={new Set()} 
-                              onSelectToggle={() => {}} 
-                              onSelectThread={() => {}}
+                              selectedTweets={selectedTweets} 
+                              onSelectToggle={handleTweetSelect} 
+                              onSelectThread={handleThreadSelect}
                             />
                             <Button
                               className="absolute top-2 right-2 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
@@ -680,12 +736,12 @@ const SavedTweets: React.FC<SavedTweetsProps> = ({ username }) => {
                         )}
                         {displayTweets.map(tweet => (
                           <div key={tweet.id} className="relative group mb-4">
-                            <TweetCard tweet={tweet} onSelectToggle={() => {}} isSelected={false} />
+                            <TweetCard tweet={tweet} onSelectToggle={handleTweetSelect} isSelected={selectedTweets.has(tweet.id)} />
                             <Button
                               className="absolute top-2 right-2 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
                               size="icon"
                               variant="destructive"
-                              onClick={() => handleDeleteTweet(tweet.id)}
+                              onClick={() => handleDeleteTweet(tweet)}
                               disabled={isDeleting[tweet.id]}
                             >
                               {isDeleting[tweet.id] ? (
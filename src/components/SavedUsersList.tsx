@@ -5,78 +5,52 @@ import { useToast } from '@/hooks/use-toast';
 import { Loader2, Database, User, Calendar, Trash2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-
-const BACKEND_API_URL = 'https://twitter-aee7.onrender.com/api/tweets';
-
-interface SavedUser {
-  username: string;
-  tweetCount: number;
-  lastSaved: {
-    savedAt: string;
-    author: {
-      profile_image_url: string;
-    };
-  };
-}
+import { SavedUser } from '@/utils/types';
+import { useDeleteSavedUser, useSavedUsers } from '@/hooks/use-saved-tweets';
+import StorageSettings from '@/components/StorageSettings';
+import { ToastAction } from '@/components/ui/toast';
+import { useUndoDelete } from '@/hooks/use-trash';
+import { isTrashError, TRASH_RETENTION_DAYS } from '@/utils/trash';
 
 const SavedUsersList: React.FC = () => {
-  const [users, setUsers] = useState<SavedUser[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
   const [isDeleting, setIsDeleting] = useState<Record<string, boolean>>({});
   const { toast } = useToast();
+  // Refetched automatically after saves and deletes on any page
+  const usersQuery = useSavedUsers();
+  const deleteUser = useDeleteSavedUser();
+  const undoDelete = useUndoDelete();
+  const users: SavedUser[] = usersQuery.data ?? [];
+  const isLoading = usersQuery.isLoading;
 
   useEffect(() => {
-    fetchSavedUsers();
-  }, []);
-
-  const fetchSavedUsers = async () => {
-    setIsLoading(true);
-    try {
-      const response = await fetch(`${BACKEND_API_URL}/saved/users`);
-      
-      if (!response.ok) {
-        throw new Error(`Error fetching saved users: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      setUsers(data.data);
-    } catch (error) {
-      console.error('Error fetching saved users:', error);
+    if (usersQuery.error) {
+      console.error('Error fetching saved users:', usersQuery.error);
       toast({
         title: 'Error',
         description: 'Failed to load saved users',
         variant: 'destructive',
       });
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [usersQuery.error, toast]);
   
   const handleDeleteUserTweets = async (username: string) => {
     setIsDeleting(prev => ({ ...prev, [username]: true }));
     try {
-      const response = await fetch(`${BACKEND_API_URL}/user/${username}`, {
-        method: 'DELETE',
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Error deleting tweets: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      // Remove the user from the state
-      setUsers(prev => prev.filter(user => user.username !== username));
+      // The user leaves the list right away and comes back if this fails
+      const { deletedCount, trashEntry } = await deleteUser.mutateAsync(username);
       
       toast({
-        title: 'Success',
-        description: `Deleted ${data.deletedCount} tweets for @${username}`,
+        title: trashEntry ? 'Moved to Trash' : 'Deleted permanently',
+        description: `Deleted ${deletedCount} tweets for @${username}`,
+        action: trashEntry ? (
+          <ToastAction altText="Undo delete" onClick={() => undoDelete(trashEntry)}>Undo</ToastAction>
+        ) : undefined,
       });
     } catch (error) {
       console.error('Error deleting user tweets:', error);
       toast({
         title: 'Error',
-        description: 'Failed to delete tweets',
+        description: isTrashError(error) ? error.message : 'Failed to delete tweets',
         variant: 'destructive',
       });
     } finally {
@@ -102,21 +76,24 @@ const SavedUsersList: React.FC = () => {
           </span>
         </div>
         
-        <Button
-          onClick={fetchSavedUsers}
-          variant="outline"
-          size="sm"
-          disabled={isLoading}
-        >
-          {isLoading ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Loading...
-            </>
-          ) : (
-            'Refresh'
-          )}
-        </Button>
+        <div className="flex items-center gap-2">
+          <StorageSettings />
+          <Button
+            onClick={() => usersQuery.refetch()}
+            variant="outline"
+            size="sm"
+            disabled={usersQuery.isFetching}
+          >
+            {usersQuery.isFetching ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Loading...
+              </>
+            ) : (
+              'Refresh'
+            )}
+          </Button>
+        </div>
       </div>
       
       {isLoading ? (
@@ -197,8 +174,8 @@ const SavedUsersList: React.FC = () => {
                   <AlertDialogHeader>
                     <AlertDialogTitle>Delete all tweets for @{user.username}?</AlertDialogTitle>
                     <AlertDialogDescription>
-                      This will permanently delete all {user.tweetCount} tweets saved for this user.
-                      This action cannot be undone.
+                      All {user.tweetCount} tweets saved for this user will be moved to the trash,
+                      where you can restore them for {TRASH_RETENTION_DAYS} days.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
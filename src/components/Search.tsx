@@ -1,16 +1,26 @@
 import React, { useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Search as SearchIcon, Loader2 } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search as SearchIcon, Loader2, MessagesSquare } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
+// How many levels of other people's replies conversation mode can keep
+const CONVERSATION_DEPTHS = [1, 2, 3];
+const DEFAULT_CONVERSATION_DEPTH = 2;
+
 interface SearchProps {
-  onSearch: (username: string) => Promise<void>;
+  // `conversationDepth` is 0 for the author's tweets only
+  onSearch: (username: string, conversationDepth: number) => Promise<void>;
   isLoading: boolean;
 }
 
 const Search: React.FC<SearchProps> = ({ onSearch, isLoading }) => {
   const [username, setUsername] = useState('');
+  const [includeConversation, setIncludeConversation] = useState(false);
+  const [conversationDepth, setConversationDepth] = useState(DEFAULT_CONVERSATION_DEPTH);
   const { toast } = useToast();
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -28,7 +38,7 @@ const Search: React.FC<SearchProps> = ({ onSearch, isLoading }) => {
     // Remove @ if user included it
     const cleanUsername = username.startsWith('@') ? username.substring(1) : username;
     
-    await onSearch(cleanUsername);
+    await onSearch(cleanUsername, includeConversation ? conversationDepth : 0);
   };
 
   return (
@@ -58,6 +68,36 @@ const Search: React.FC<SearchProps> = ({ onSearch, isLoading }) => {
             )}
           </Button>
         </form>
+        <div className="flex flex-wrap items-center gap-2 px-3 pb-2">
+          <Switch
+            id="include-conversation"
+            checked={includeConversation}
+            onCheckedChange={setIncludeConversation}
+            disabled={isLoading}
+          />
+          <Label htmlFor="include-conversation" className="flex items-center gap-1 text-xs sm:text-sm text-muted-foreground">
+            <MessagesSquare className="h-4 w-4" />
+            Include replies from others
+          </Label>
+          {includeConversation && (
+            <Select
+              value={String(conversationDepth)}
+              onValueChange={value => setConversationDepth(parseInt(value, 10))}
+              disabled={isLoading}
+            >
+              <SelectTrigger className="h-8 w-auto text-xs sm:text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONVERSATION_DEPTHS.map(depth => (
+                  <SelectItem key={depth} value={String(depth)}>
+                    {depth} {depth === 1 ? 'level' : 'levels'} deep
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
       </div>
     </div>
   );
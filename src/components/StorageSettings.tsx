@@ -0,0 +1,108 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useQueryClient } from '@tanstack/react-query';
+import { Cloud, HardDrive, Loader2, RefreshCw } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { useStorageMode } from '@/hooks/use-storage-mode';
+import { savedKeys, useSyncSavedTweets } from '@/hooks/use-saved-tweets';
+import { setStorageMode, StorageMode } from '@/utils/savedStore';
+
+const MODE_OPTIONS: { mode: StorageMode; label: string; description: string }[] = [
+  { mode: 'remote', label: 'Backend only', description: 'Saved tweets live on the backend server.' },
+  { mode: 'local', label: 'This browser only', description: 'Saved tweets stay in this browser and work offline.' },
+  { mode: 'sync', label: 'This browser, synced', description: 'Works offline and keeps the backend up to date.' },
+];
+
+// Picks where saved tweets are stored and runs syncs with the backend
+const StorageSettings = () => {
+  const { mode, lastSyncedAt } = useStorageMode();
+  const queryClient = useQueryClient();
+  const syncSaved = useSyncSavedTweets();
+  const { toast } = useToast();
+
+  const handleSync = async () => {
+    try {
+      const result = await syncSaved.mutateAsync();
+      toast({
+        title: 'Sync Complete',
+        description: `${result.pulled} downloaded, ${result.pushed} uploaded, ${result.deletedRemotely + result.deletedLocally} deleted`,
+      });
+    } catch (error) {
+      console.error('Error syncing saved tweets:', error);
+      toast({
+        title: 'Sync Failed',
+        description: 'Could not reach the backend. Saved tweets in this browser are unchanged.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleModeChange = (value: string) => {
+    const nextMode = value as StorageMode;
+    setStorageMode(nextMode);
+    queryClient.invalidateQueries({ queryKey: savedKeys.all });
+
+    // Bring this browser up to date before relying on it
+    if (nextMode === 'sync') {
+      handleSync();
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1" title="Where saved tweets are stored">
+          {mode === 'remote' ? <Cloud className="h-4 w-4" /> : <HardDrive className="h-4 w-4" />}
+          <span className="hidden sm:inline">Storage</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Saved tweets storage</div>
+
+          <RadioGroup value={mode} onValueChange={handleModeChange}>
+            {MODE_OPTIONS.map(option => (
+              <div key={option.mode} className="flex items-start gap-2">
+                <RadioGroupItem value={option.mode} id={`storage-${option.mode}`} className="mt-0.5" />
+                <Label htmlFor={`storage-${option.mode}`} className="font-normal">
+                  <span className="block text-sm">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {mode === 'sync' && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                {lastSyncedAt
+                  ? `Last synced ${formatDistanceToNow(new Date(lastSyncedAt), { addSuffix: true })}`
+                  : 'Not synced yet'}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={handleSync}
+                disabled={syncSaved.isPending}
+              >
+                {syncSaved.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Sync now
+              </Button>
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default StorageSettings;
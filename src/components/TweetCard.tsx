@@ -3,6 +3,9 @@ import { Tweet } from '@/utils/types';
 import { Checkbox } from '@/components/ui/checkbox';
 import { MessageSquare, Heart, RefreshCw, Share, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
 import MediaDisplay from './MediaDisplay';
+import QuotedTweetCard from './QuotedTweetCard';
+import RetweetHeader from './RetweetHeader';
+import { getQuotedTweet, getRetweetedTweet } from '@/utils/referencedTweets';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { formatDistanceToNow } from 'date-fns';
 import { toast } from '@/components/ui/use-toast';
@@ -174,6 +177,12 @@ const TweetCard: React.FC<TweetCardProps> = ({ tweet, isSelected, onSelectToggle
     return tweet.is_long || (tweet.full_text && tweet.full_text.length > tweet.text.length + 20) || isTruncated;
   }, [tweet, fullTweet, isTruncated]);
 
+  // Retweets show the original tweet under an attribution header
+  const retweeted = getRetweetedTweet(tweet);
+  const shownAuthor = retweeted?.author || tweet.author;
+  const shownMedia = retweeted?.media?.length ? retweeted.media : tweet.media;
+  const quoted = getQuotedTweet(tweet);
+
   return (
     <article className="tweet-card animate-fade-in">
       <div className="checkbox-container sm:top-6 sm:right-6 top-4 right-4">
@@ -192,13 +201,14 @@ const TweetCard: React.FC<TweetCardProps> = ({ tweet, isSelected, onSelectToggle
       </div>
       
       <div className="flex flex-col space-y-1.5">
-        {tweet.author && (
+        <RetweetHeader tweet={tweet} />
+        {shownAuthor && (
           <div className="flex items-center">
             <div className="flex gap-2 items-center flex-1">
               <Avatar className="h-8 w-8 relative profile-media-container">
                 <AvatarImage 
-                  src={tweet.author.profile_image_url} 
-                  alt={tweet.author.name}
+                  src={shownAuthor.profile_image_url} 
+                  alt={shownAuthor.name}
                   className="object-cover"
                   loading="lazy"
                   onError={(e) => {
@@ -206,12 +216,12 @@ const TweetCard: React.FC<TweetCardProps> = ({ tweet, isSelected, onSelectToggle
                   }}
                 />
                 <AvatarFallback>
-                  {tweet.author.name?.charAt(0) || 'U'}
+                  {shownAuthor.name?.charAt(0) || 'U'}
                 </AvatarFallback>
               </Avatar>
               <div className="flex flex-col text-sm">
-                <span className="font-semibold line-clamp-1">{tweet.author.name}</span>
-                <span className="text-muted-foreground text-xs">@{tweet.author.username}</span>
+                <span className="font-semibold line-clamp-1">{shownAuthor.name}</span>
+                <span className="text-muted-foreground text-xs">@{shownAuthor.username}</span>
               </div>
             </div>
             <div className="text-xs text-muted-foreground flex items-center">
@@ -236,10 +246,10 @@ const TweetCard: React.FC<TweetCardProps> = ({ tweet, isSelected, onSelectToggle
         ) : (
           <>
             <div className="text-sm mb-2 whitespace-pre-wrap break-words">
-              {displayText}
+              {retweeted ? retweeted.text : displayText}
               
               {/* Show more/less button if content is long */}
-              {showMoreButton && (
+              {showMoreButton && !retweeted && (
                 <button
                   onClick={handleShowMoreClick}
                   className="ml-1 text-blue-500 hover:text-blue-700 text-xs font-semibold inline-flex items-center"
@@ -266,42 +276,15 @@ const TweetCard: React.FC<TweetCardProps> = ({ tweet, isSelected, onSelectToggle
         )}
       </div>
       
-      {tweet.media && tweet.media.length > 0 && (
+      {shownMedia && shownMedia.length > 0 && (
         <div className="mt-3 sm:mt-4 mb-3 sm:mb-4">
-          <MediaDisplay media={tweet.media} />
+          <MediaDisplay media={shownMedia} />
         </div>
       )}
       
-      {tweet.referenced_tweets && tweet.referenced_tweets.length > 0 && tweet.referenced_tweets[0].type === 'quoted' && (
-        <div className="mt-3 sm:mt-4 mb-3 sm:mb-4 border border-gray-200 rounded-lg p-3 sm:p-4 bg-gray-50">
-          <div className="flex items-center mb-2">
-            {tweet.referenced_tweets[0].author?.profile_image_url && (
-              <img 
-                src={tweet.referenced_tweets[0].author.profile_image_url} 
-                alt={tweet.referenced_tweets[0].author.name || "Quoted user"} 
-                className="w-6 h-6 sm:w-8 sm:h-8 rounded-full mr-2 object-cover"
-                loading="lazy"
-                onError={(e) => {
-                  e.currentTarget.onerror = null;
-                  e.currentTarget.src = 'https://abs.twimg.com/sticky/default_profile_images/default_profile_normal.png';
-                }}
-              />
-            )}
-            <div>
-              <div className="font-semibold text-xs sm:text-sm">{tweet.referenced_tweets[0].author?.name}</div>
-              <div className="text-xs text-muted-foreground">
-                @{tweet.referenced_tweets[0].author?.username}
-              </div>
-            </div>
-          </div>
-          <p className="text-xs sm:text-sm text-foreground whitespace-pre-line">
-            {tweet.referenced_tweets[0].text}
-          </p>
-          {tweet.referenced_tweets[0].media && tweet.referenced_tweets[0].media.length > 0 && (
-            <div className="mt-2 sm:mt-3">
-              <MediaDisplay media={tweet.referenced_tweets[0].media} />
-            </div>
-          )}
+      {quoted && (
+        <div className="mt-3 sm:mt-4 mb-3 sm:mb-4">
+          <QuotedTweetCard quoted={quoted} />
         </div>
       )}
       
@@ -1,20 +1,32 @@
 import React from 'react';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TweetCategory, CategoryOption } from '@/utils/types';
-import { MessagesSquare, Layers, Text, ListFilter } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { MessagesSquare, Layers, Text, ListFilter, Repeat2 } from 'lucide-react';
 
 interface TweetCategoriesProps {
   selectedCategory: TweetCategory;
   onCategoryChange: (category: TweetCategory) => void;
   tweetCounts?: Record<TweetCategory, number>;
   categoryCounts?: Record<TweetCategory, number>; // Support both prop names
+  // Numbered threads by whether all their tweets are loaded (see threadNumbering.ts)
+  threadNumberingCounts?: { complete: number; incomplete: number };
+  // Retweet filter; the switch only shows when there are retweets to filter
+  includeRetweets?: boolean;
+  onIncludeRetweetsChange?: (include: boolean) => void;
+  retweetCount?: number;
 }
 
 const TweetCategories: React.FC<TweetCategoriesProps> = ({ 
   selectedCategory, 
   onCategoryChange,
   tweetCounts = {},
-  categoryCounts = {}
+  categoryCounts = {},
+  threadNumberingCounts,
+  includeRetweets = true,
+  onIncludeRetweetsChange,
+  retweetCount = 0
 }) => {
   // Use either tweetCounts or categoryCounts, with a fallback to an empty object
   const counts = Object.keys(tweetCounts).length > 0 ? tweetCounts : categoryCounts;
@@ -41,10 +53,39 @@ const TweetCategories: React.FC<TweetCategoriesProps> = ({
               <span className="ml-1 rounded-full bg-muted px-1 sm:px-2 py-0.5 text-xs">
                 {counts && counts[category.value] ? counts[category.value] : 0}
               </span>
+              {category.value === 'thread' && threadNumberingCounts?.complete > 0 && (
+                <span
+                  className="rounded-full bg-green-100 text-green-700 px-1 sm:px-2 py-0.5 text-xs"
+                  title="Numbered threads with every tweet loaded"
+                >
+                  {threadNumberingCounts.complete} complete
+                </span>
+              )}
+              {category.value === 'thread' && threadNumberingCounts?.incomplete > 0 && (
+                <span
+                  className="rounded-full bg-amber-100 text-amber-700 px-1 sm:px-2 py-0.5 text-xs"
+                  title="Numbered threads with fewer tweets than their author announced"
+                >
+                  {threadNumberingCounts.incomplete} incomplete
+                </span>
+              )}
             </TabsTrigger>
           ))}
         </TabsList>
       </Tabs>
+      {onIncludeRetweetsChange && retweetCount > 0 && (
+        <div className="flex items-center gap-2 mt-2 px-1">
+          <Switch
+            id="include-retweets"
+            checked={includeRetweets}
+            onCheckedChange={onIncludeRetweetsChange}
+          />
+          <Label htmlFor="include-retweets" className="flex items-center gap-1 text-xs sm:text-sm text-muted-foreground">
+            <Repeat2 className="h-4 w-4" />
+            Show retweets ({retweetCount})
+          </Label>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { TwitterConfig } from '@/utils/api';
+import { TwitterConfig, estimateFetchCost } from '@/utils/api';
+import { getDailyBudget, setDailyBudget } from '@/utils/quota';
+import { useQuota } from '@/hooks/use-quota';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Input } from '@/components/ui/input';
@@ -14,32 +16,43 @@ import {
   SheetFooter,
   SheetClose
 } from '@/components/ui/sheet';
-import { Settings, RefreshCw } from 'lucide-react';
+import { Settings, RefreshCw, Gauge, ArrowDownToLine } from 'lucide-react';
 
 interface TweetFetchSettingsProps {
   onFetchMore: (count: number) => void;
   onRefresh: () => void;
+  onSync: () => void;
   isFetching: boolean;
 }
 
 const TweetFetchSettings: React.FC<TweetFetchSettingsProps> = ({ 
   onFetchMore, 
   onRefresh,
+  onSync,
   isFetching
 }) => {
   const [initialFetch, setInitialFetch] = useState(TwitterConfig.fetchLimit);
   const [maxTweets, setMaxTweets] = useState(TwitterConfig.maxTweets);
+  const [gapRepairBudget, setGapRepairBudget] = useState(TwitterConfig.gapRepairBudget);
   const [fetchMoreCount, setFetchMoreCount] = useState(20);
+  const [dailyBudget, setDailyBudgetInput] = useState(getDailyBudget());
+  const { remaining } = useQuota();
   
   // Update component state if TwitterConfig changes elsewhere
   useEffect(() => {
     setInitialFetch(TwitterConfig.fetchLimit);
     setMaxTweets(TwitterConfig.maxTweets);
+    setGapRepairBudget(TwitterConfig.gapRepairBudget);
   }, []);
   
+  // Worst case for a search with the settings as currently shown
+  const estimatedCalls = estimateFetchCost(initialFetch, maxTweets, gapRepairBudget);
+  
   const handleSaveSettings = () => {
     TwitterConfig.setFetchLimit(initialFetch);
     TwitterConfig.setMaxTweets(maxTweets);
+    TwitterConfig.setGapRepairBudget(gapRepairBudget);
+    setDailyBudget(dailyBudget);
   };
   
   const handleFetchMore = () => {
@@ -101,6 +114,48 @@ const TweetFetchSettings: React.FC<TweetFetchSettingsProps> = ({
                 Maximum number of tweets to fetch in total
               </p>
             </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="gapRepairBudget">Thread Gap Lookups</Label>
+              <Input
+                id="gapRepairBudget"
+                type="number"
+                min="0"
+                max="50"
+                value={gapRepairBudget}
+                onChange={(e) => setGapRepairBudget(Math.min(50, Math.max(0, parseInt(e.target.value) || 0)))}
+                className="w-32"
+              />
+              <p className="text-xs text-muted-foreground">
+                Calls spent per fetch looking up thread tweets that weren't loaded (0 turns this off)
+              </p>
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="dailyBudget">Daily API Call Budget</Label>
+              <Input
+                id="dailyBudget"
+                type="number"
+                min="1"
+                value={dailyBudget}
+                onChange={(e) => setDailyBudgetInput(parseInt(e.target.value) || getDailyBudget())}
+                className="w-32"
+              />
+              <p className="text-xs text-muted-foreground">
+                Fetches stop once this many calls have been made today
+              </p>
+            </div>
+            
+            <div className="rounded-md border bg-muted/50 p-3 text-sm">
+              <div className="flex items-center gap-2 font-medium">
+                <Gauge className="h-4 w-4" />
+                Up to {estimatedCalls} API calls per search
+              </div>
+              <p className={`text-xs mt-1 ${estimatedCalls > remaining ? 'text-amber-600' : 'text-muted-foreground'}`}>
+                {remaining} calls left today
+                {estimatedCalls > remaining && ' · a full search may stop early'}
+              </p>
+            </div>
           </div>
           
           <SheetFooter>
@@ -128,6 +183,16 @@ const TweetFetchSettings: React.FC<TweetFetchSettingsProps> = ({
           {isFetching ? 'Loading...' : 'Fetch More'}
         </Button>
         
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={onSync}
+          disabled={isFetching}
+          title="Sync New Tweets"
+        >
+          <ArrowDownToLine className="h-4 w-4" />
+        </Button>
+        
         <Button
           variant="outline"
           size="icon"
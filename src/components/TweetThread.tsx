@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { Tweet, Thread } from '@/utils/types';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import MediaDisplay from './MediaDisplay';
-import { MessageSquare, Heart, RefreshCw, Share, ChevronDown, ChevronUp, CheckSquare } from 'lucide-react';
+import QuotedTweetCard from './QuotedTweetCard';
+import RetweetHeader from './RetweetHeader';
+import { getQuotedTweet, getRetweetedTweet } from '@/utils/referencedTweets';
+import { MessageSquare, Heart, RefreshCw, Share, ChevronDown, ChevronUp, CheckSquare, GitBranch, List, Unlink, Scissors, GripVertical, Undo2 } from 'lucide-react';
+import { branchLevels, buildReplyForest, findMissingParents, isBranching, walkForest } from '@/utils/threadTree';
+import { checkThreadNumbering } from '@/utils/threadNumbering';
 import { formatDistanceToNow } from 'date-fns';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 
@@ -11,19 +17,30 @@ interface TweetThreadProps {
   selectedTweets: Set<string>;
   onSelectToggle: (tweet: Tweet) => void;
   onSelectThread: (thread: Thread, select: boolean) => void;
+  // Manual editing (see threadOverrides.ts); controls only show when given
+  onSplit?: (thread: Thread, tweetId: string) => void;
+  onReorder?: (thread: Thread, tweetIds: string[]) => void;
+  onResetGrouping?: (thread: Thread) => void;
 }
 
 const TweetThread: React.FC<TweetThreadProps> = ({ 
   thread, 
   selectedTweets = new Set(), 
   onSelectToggle = () => {}, 
-  onSelectThread = () => {}
+  onSelectThread = () => {},
+  onSplit,
+  onReorder,
+  onResetGrouping
 }) => {
   const [expanded, setExpanded] = useState(true);
-  const [visibleTweets, setVisibleTweets] = useState<Tweet[]>(thread.tweets);
   const [expandedTweets, setExpandedTweets] = useState<Set<string>>(new Set());
   const [loadingTweets, setLoadingTweets] = useState<Set<string>>(new Set());
   const [fullTweets, setFullTweets] = useState<Map<string, Tweet>>(new Map());
+  // Show replies indented under the tweet they answer instead of as one list
+  const [treeMode, setTreeMode] = useState(false);
+  // Tweet being dragged to a new position, and the tweet it hovers over
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
   
   // Ensure thread has tweets array
   if (!thread || !thread.tweets || thread.tweets.length === 0) {
@@ -58,9 +75,43 @@ const TweetThread: React.FC<TweetThreadProps> = ({
     });
   }, [thread.tweets]);
   
-  // Always show all tweets in a thread
+  // Always show all tweets in a thread, following the prop so deleted
+  // tweets disappear
+  const visibleTweets = thread.tweets;
   const hasMoreTweets = false; // No need to expand further
 
+  // The tree toggle only appears when the author branched somewhere
+  const forest = buildReplyForest(visibleTweets);
+  const branching = isBranching(forest);
+  const levels = branchLevels(forest);
+  // Tree mode walks the reply tree; list mode keeps the thread's own order
+  const displayedTweets = treeMode && branching ? walkForest(forest).map(node => node.tweet) : visibleTweets;
+  // Tweets the author replied to that couldn't be loaded; gaps in other
+  // people's replies (conversation mode) don't count
+  const threadAuthor = (thread.author || thread.tweets[0]?.author)?.username?.toLowerCase();
+  const missingCount = findMissingParents(
+    visibleTweets.filter(tweet => tweet.author?.username?.toLowerCase() === threadAuthor),
+    new Set(visibleTweets.map(tweet => tweet.id))
+  ).length;
+  // Only numbered threads with a declared total ("x/12") can be checked
+  const numbering = checkThreadNumbering(visibleTweets);
+
+  // Reordering works on the list, where positions are the thread's own order
+  const canReorder = !!onReorder && !(treeMode && branching);
+
+  const handleDrop = (targetId: string) => {
+    if (dragId && dragId !== targetId) {
+      const tweetIds = visibleTweets.map(tweet => tweet.id).filter(id => id !== dragId);
+      // Dropped on a later tweet goes after it, on an earlier one before it
+      const from = visibleTweets.findIndex(tweet => tweet.id === dragId);
+      const to = visibleTweets.findIndex(tweet => tweet.id === targetId);
+      tweetIds.splice(tweetIds.indexOf(targetId) + (from < to ? 1 : 0), 0, dragId);
+      onReorder?.(thread, tweetIds);
+    }
+    setDragId(null);
+    setDropTargetId(null);
+  };
+
   const toggleExpand = () => {
     setExpanded(!expanded);
   };
@@ -269,6 +320,46 @@ const TweetThread: React.FC<TweetThreadProps> = ({
         </div>
         
         <div className="flex items-center">
+          {thread.isManual && onResetGrouping && (
+            <button
+              onClick={() => onResetGrouping(thread)}
+              className="flex items-center text-xs text-muted-foreground hover:text-twitter gap-2 p-2 rounded-md hover:bg-gray-100 transition-colors"
+              title="Edited by hand. Restore automatic grouping"
+            >
+              <Undo2 className="h-4 w-4" />
+              <span className="hidden sm:inline">Edited</span>
+            </button>
+          )}
+          {numbering.status !== 'unknown' && (
+            <Badge
+              variant="outline"
+              className={numbering.status === 'complete' ? 'border-green-200 text-green-700' : 'border-amber-200 text-amber-700'}
+              title={numbering.status === 'complete'
+                ? 'Every numbered tweet is here'
+                : `Missing ${numbering.missing.map(index => `${index}/${numbering.declaredTotal}`).join(', ')}`}
+            >
+              {numbering.status === 'complete' ? 'Complete' : 'Incomplete'} {numbering.found}/{numbering.declaredTotal}
+            </Badge>
+          )}
+          {missingCount > 0 && (
+            <span
+              className="flex items-center text-xs text-amber-600 gap-1 p-2"
+              title="Parts of this thread could not be loaded"
+            >
+              <Unlink className="h-4 w-4" />
+              {missingCount} {missingCount === 1 ? 'tweet' : 'tweets'} missing
+            </span>
+          )}
+          {branching && (
+            <button
+              onClick={() => setTreeMode(!treeMode)}
+              className="flex items-center text-xs text-muted-foreground hover:text-twitter gap-2 p-2 rounded-md hover:bg-gray-100 transition-colors"
+              title={treeMode ? 'Show as a list' : 'Show reply branches'}
+            >
+              {treeMode ? <List className="h-4 w-4" /> : <GitBranch className="h-4 w-4" />}
+              <span className="hidden sm:inline">{treeMode ? 'List' : 'Tree'}</span>
+            </button>
+          )}
           <button 
             onClick={handleSelectThread}
             className="flex items-center text-xs text-muted-foreground hover:text-twitter gap-2 p-2 rounded-md hover:bg-gray-100 transition-colors"
@@ -282,126 +373,158 @@ const TweetThread: React.FC<TweetThreadProps> = ({
       </div>
       
       <div className="thread-container mb-4 space-y-0">
-        {visibleTweets.map((tweet, index) => (
-          <div 
-            key={tweet.id} 
-            className="thread-item"
-          >
-            <div className="absolute -left-3 top-4 w-6 h-6 bg-white rounded-full border-2 border-twitter/30 z-10 flex items-center justify-center text-xs text-twitter">
-              {index + 1}
-            </div>
-            
-            <div className="flex items-center mb-2">
-              <Checkbox 
-                id={`select-${tweet.id}`} 
-                checked={selectedTweets.has(tweet.id)}
-                onCheckedChange={() => onSelectToggle(tweet)}
-                className="h-4 w-4 rounded-md mr-2"
-              />
-              <label 
-                htmlFor={`select-${tweet.id}`}
-                className="text-xs text-muted-foreground"
-              >
-                <span className="hidden sm:inline">Select this tweet</span>
-                <span className="sm:hidden">Select</span>
-              </label>
-            </div>
+        {displayedTweets.map((tweet, index) => {
+          const quoted = getQuotedTweet(tweet);
+          const retweeted = getRetweetedTweet(tweet);
+          return (
+            <div 
+              key={tweet.id} 
+              className={[
+                treeMode && branching && levels.get(tweet.id) ? 'thread-item border-l-2 border-twitter/20' : 'thread-item',
+                dragId === tweet.id ? 'opacity-50' : '',
+                dropTargetId === tweet.id && dragId !== tweet.id ? 'ring-2 ring-twitter/40 rounded-md' : ''
+              ].join(' ')}
+              style={treeMode && branching ? { marginLeft: `${Math.min(levels.get(tweet.id) || 0, 6) * 1.25}rem` } : undefined}
+              draggable={canReorder}
+              onDragStart={canReorder ? (e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragId(tweet.id);
+              } : undefined}
+              onDragOver={canReorder && dragId ? (e) => {
+                e.preventDefault();
+                setDropTargetId(tweet.id);
+              } : undefined}
+              onDrop={canReorder ? (e) => {
+                e.preventDefault();
+                handleDrop(tweet.id);
+              } : undefined}
+              onDragEnd={canReorder ? () => {
+                setDragId(null);
+                setDropTargetId(null);
+              } : undefined}
+            >
+              <div className="absolute -left-3 top-4 w-6 h-6 bg-white rounded-full border-2 border-twitter/30 z-10 flex items-center justify-center text-xs text-twitter">
+                {index + 1}
+              </div>
             
-            <div className="text-foreground whitespace-pre-line text-sm sm:text-base">
-              {loadingTweets.has(tweet.id) ? (
-                <p className="text-muted-foreground">Loading full tweet content...</p>
-              ) : (
-                <>
-                  {getDisplayText(tweet)}
-                  
-                  {/* Show more/less button if needed */}
-                  {(isTruncated(tweet) || (tweet.full_text || tweet.text || '').length > 240 || fullTweets.has(tweet.id)) && (
-                    <button 
-                      onClick={() => handleShowMoreClick(tweet.id)}
-                      className="mt-2 text-blue-500 hover:text-blue-700 text-sm font-medium flex items-center"
-                      disabled={loadingTweets.has(tweet.id)}
+              <div className="flex items-center mb-2">
+                <Checkbox 
+                  id={`select-${tweet.id}`} 
+                  checked={selectedTweets.has(tweet.id)}
+                  onCheckedChange={() => onSelectToggle(tweet)}
+                  className="h-4 w-4 rounded-md mr-2"
+                />
+                <label 
+                  htmlFor={`select-${tweet.id}`}
+                  className="text-xs text-muted-foreground"
+                >
+                  <span className="hidden sm:inline">Select this tweet</span>
+                  <span className="sm:hidden">Select</span>
+                </label>
+                <div className="ml-auto flex items-center">
+                  {onSplit && index > 0 && !(treeMode && branching) && (
+                    <button
+                      onClick={() => onSplit(thread, tweet.id)}
+                      className="flex items-center text-xs text-muted-foreground hover:text-twitter gap-1 p-1 rounded-md hover:bg-gray-100 transition-colors"
+                      title="Start a new thread at this tweet"
                     >
-                      {loadingTweets.has(tweet.id) ? (
-                        <span className="flex items-center">
-                          <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                          </svg>
-                          Loading...
-                        </span>
-                      ) : (
-                        expandedTweets.has(tweet.id) ? (
-                          <>Show less <ChevronUp className="h-4 w-4 ml-1" /></>
-                        ) : (
-                          <>Show more <ChevronDown className="h-4 w-4 ml-1" /></>
-                        )
-                      )}
+                      <Scissors className="h-3 w-3" />
+                      <span className="hidden sm:inline">Split here</span>
                     </button>
                   )}
-                </>
-              )}
-            </div>
+                  {canReorder && (
+                    <span className="p-1 text-muted-foreground cursor-grab" title="Drag to reorder">
+                      <GripVertical className="h-4 w-4" />
+                    </span>
+                  )}
+                </div>
+              </div>
             
-            {tweet.media && tweet.media.length > 0 && (
-              <div className="mt-3">
-                <MediaDisplay media={tweet.media} />
+              <div className="mb-1">
+                <RetweetHeader tweet={tweet} />
               </div>
-            )}
+              
+              {/* Conversation mode mixes in other people's replies */}
+              {tweet.author?.username && tweet.author.username.toLowerCase() !== authorInfo?.username?.toLowerCase() && (
+                <div className="text-xs text-muted-foreground mb-1">
+                  <span className="font-medium text-foreground">{tweet.author.name}</span> @{tweet.author.username} replied
+                </div>
+              )}
             
-            {/* Display quoted tweet if exists */}
-            {tweet.referenced_tweets && tweet.referenced_tweets.length > 0 && tweet.referenced_tweets[0].type === 'quoted' && (
-              <div className="mt-3 border border-gray-200 rounded-lg p-3">
-                <div className="flex items-center mb-2">
-                  {tweet.referenced_tweets[0].author?.profile_image_url && (
-                    <img 
-                      src={tweet.referenced_tweets[0].author.profile_image_url} 
-                      alt={tweet.referenced_tweets[0].author.name || "Quoted user"} 
-                      className="w-6 h-6 rounded-full mr-2 object-cover"
-                      loading="lazy"
-                      onError={(e) => {
-                        e.currentTarget.onerror = null;
-                        e.currentTarget.src = 'https://abs.twimg.com/sticky/default_profile_images/default_profile_normal.png';
-                      }}
-                    />
+              {/* Retweets show the original tweet, as on standalone cards */}
+              {retweeted ? (
+                <QuotedTweetCard quoted={retweeted} compact />
+              ) : (
+                <div className="text-foreground whitespace-pre-line text-sm sm:text-base">
+                  {loadingTweets.has(tweet.id) ? (
+                    <p className="text-muted-foreground">Loading full tweet content...</p>
+                  ) : (
+                    <>
+                      {getDisplayText(tweet)}
+                  
+                      {/* Show more/less button if needed */}
+                      {(isTruncated(tweet) || (tweet.full_text || tweet.text || '').length > 240 || fullTweets.has(tweet.id)) && (
+                        <button 
+                          onClick={() => handleShowMoreClick(tweet.id)}
+                          className="mt-2 text-blue-500 hover:text-blue-700 text-sm font-medium flex items-center"
+                          disabled={loadingTweets.has(tweet.id)}
+                        >
+                          {loadingTweets.has(tweet.id) ? (
+                            <span className="flex items-center">
+                              <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-blue-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                              </svg>
+                              Loading...
+                            </span>
+                          ) : (
+                            expandedTweets.has(tweet.id) ? (
+                              <>Show less <ChevronUp className="h-4 w-4 ml-1" /></>
+                            ) : (
+                              <>Show more <ChevronDown className="h-4 w-4 ml-1" /></>
+                            )
+                          )}
+                        </button>
+                      )}
+                    </>
                   )}
-                  <div>
-                    <div className="font-semibold text-xs">{tweet.referenced_tweets[0].author?.name}</div>
-                    <div className="text-xs text-muted-foreground">
-                      @{tweet.referenced_tweets[0].author?.username}
-                    </div>
-                  </div>
                 </div>
-                <p className="text-xs text-foreground whitespace-pre-line">
-                  {tweet.referenced_tweets[0].text}
-                </p>
-                {tweet.referenced_tweets[0].media && tweet.referenced_tweets[0].media.length > 0 && (
-                  <div className="mt-2">
-                    <MediaDisplay media={tweet.referenced_tweets[0].media} />
-                  </div>
-                )}
-              </div>
-            )}
+              )}
+              
+              {!retweeted && tweet.media && tweet.media.length > 0 && (
+                <div className="mt-3">
+                  <MediaDisplay media={tweet.media} />
+                </div>
+              )}
             
-            <div className="flex mt-2 pt-2 justify-between text-xs text-muted-foreground">
-              <div className="flex items-center">
-                <MessageSquare className="h-3 w-3 mr-1" />
-                <span>{tweet.reply_count || 0}</span>
-              </div>
-              <div className="flex items-center">
-                <RefreshCw className="h-3 w-3 mr-1" />
-                <span>{tweet.retweet_count || 0}</span>
-              </div>
-              <div className="flex items-center">
-                <Heart className="h-3 w-3 mr-1" />
-                <span>{tweet.favorite_count || 0}</span>
-              </div>
-              <div className="flex items-center">
-                <Share className="h-3 w-3 mr-1" />
-                <span>{tweet.quote_count || 0}</span>
+              {/* Display quoted tweet if exists */}
+              {quoted && (
+                <div className="mt-3">
+                  <QuotedTweetCard quoted={quoted} compact />
+                </div>
+              )}
+            
+              <div className="flex mt-2 pt-2 justify-between text-xs text-muted-foreground">
+                <div className="flex items-center">
+                  <MessageSquare className="h-3 w-3 mr-1" />
+                  <span>{tweet.reply_count || 0}</span>
+                </div>
+                <div className="flex items-center">
+                  <RefreshCw className="h-3 w-3 mr-1" />
+                  <span>{tweet.retweet_count || 0}</span>
+                </div>
+                <div className="flex items-center">
+                  <Heart className="h-3 w-3 mr-1" />
+                  <span>{tweet.favorite_count || 0}</span>
+                </div>
+                <div className="flex items-center">
+                  <Share className="h-3 w-3 mr-1" />
+                  <span>{tweet.quote_count || 0}</span>
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     </article>
   );
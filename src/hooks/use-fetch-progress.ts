@@ -0,0 +1,56 @@
+import { useCallback, useState } from 'react';
+import { FetchProgressEvent, FetchRetryEvent, TweetStreamEvent } from '@/utils/api';
+
+// Everything the progress panel needs to know about the fetch in flight
+export interface FetchProgressState {
+  startedAt: number;
+  progress: FetchProgressEvent;
+  // Number of reply crawls planned, known once the replies phase starts
+  replyCrawls?: number;
+  retry?: FetchRetryEvent | null;
+  tweetCount: number;
+}
+
+// Fold a stream event into the panel state
+const reduceFetchProgress = (state: FetchProgressState, event: TweetStreamEvent): FetchProgressState => {
+  switch (event.type) {
+    case 'batch':
+      return { ...state, tweetCount: event.total };
+    case 'retry':
+      return { ...state, retry: event };
+    case 'progress':
+      return {
+        ...state,
+        progress: event,
+        replyCrawls: event.phase === 'replies' ? event.total : state.replyCrawls,
+        // A new step means the previous retry is over
+        retry: null
+      };
+    default:
+      return state;
+  }
+};
+
+// Tracks the progress of one streamed fetch at a time
+export const useFetchProgress = () => {
+  const [progress, setProgress] = useState<FetchProgressState | null>(null);
+
+  const start = useCallback(() => {
+    setProgress({
+      startedAt: Date.now(),
+      progress: { type: 'progress', phase: 'user' },
+      retry: null,
+      tweetCount: 0
+    });
+  }, []);
+
+  const track = useCallback((event: TweetStreamEvent) => {
+    setProgress(prev => prev && reduceFetchProgress(prev, event));
+  }, []);
+
+  const finish = useCallback(() => {
+    setProgress(null);
+  }, []);
+
+  return { progress, start, track, finish };
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import { getPayloadDiagnostics, subscribeToDiagnostics } from '@/utils/diagnostics';
+
+// Quarantined provider records, kept in sync as new ones come in (in any tab)
+export const usePayloadDiagnostics = () => {
+  const [diagnostics, setDiagnostics] = useState(getPayloadDiagnostics);
+
+  useEffect(() => {
+    return subscribeToDiagnostics(() => setDiagnostics(getPayloadDiagnostics()));
+  }, []);
+
+  return diagnostics;
+};
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { getDailyBudget, getQuotaUsage, subscribeToQuota } from '@/utils/quota';
+
+// Today's API call usage, kept in sync as calls are made (in any tab)
+export const useQuota = () => {
+  const [usage, setUsage] = useState(getQuotaUsage);
+  const [budget, setBudget] = useState(getDailyBudget);
+
+  useEffect(() => {
+    return subscribeToQuota(() => {
+      setUsage(getQuotaUsage());
+      setBudget(getDailyBudget());
+    });
+  }, []);
+
+  return {
+    usage,
+    budget,
+    remaining: Math.max(0, budget - usage.total),
+    exhausted: usage.total >= budget
+  };
+};
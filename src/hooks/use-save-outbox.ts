@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { discardBatch, getOutbox, retryBatch, subscribeToOutbox } from '@/utils/outbox';
+import { savedKeys } from '@/hooks/use-saved-tweets';
+
+// Saves waiting in the outbox, kept in sync as batches are queued, retried
+// and discarded (in any tab)
+export const useSaveOutbox = () => {
+  const queryClient = useQueryClient();
+  const [batches, setBatches] = useState(getOutbox);
+
+  useEffect(() => {
+    return subscribeToOutbox(() => setBatches(getOutbox()));
+  }, []);
+
+  // Resolves to whether the batch was saved
+  const retry = useCallback(async (id: string) => {
+    const saved = await retryBatch(id);
+    if (saved) queryClient.invalidateQueries({ queryKey: savedKeys.all });
+    return saved;
+  }, [queryClient]);
+
+  // Every batch, including those waiting for a manual retry. Resolves to
+  // how many were saved.
+  const retryAll = useCallback(async () => {
+    let saved = 0;
+    for (const batch of getOutbox()) {
+      if (await retryBatch(batch.id)) saved++;
+    }
+    if (saved > 0) queryClient.invalidateQueries({ queryKey: savedKeys.all });
+    return saved;
+  }, [queryClient]);
+
+  return {
+    batches,
+    pendingTweets: batches.reduce((count, batch) => count + batch.tweets.length, 0),
+    retry,
+    retryAll,
+    discard: discardBatch,
+  };
+};
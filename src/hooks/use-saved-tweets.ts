@@ -0,0 +1,256 @@
+import { QueryClient, QueryKey, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { savedStore, syncSavedTweets } from '@/utils/savedStore';
+import { saveOrQueue } from '@/utils/outbox';
+import { isBackendError, isRetryableBackendError } from '@/utils/errors';
+import { createTrashError, keepInTrash, moveToTrash, TrashEntry, TrashKind } from '@/utils/trash';
+import { ApiResponse, DeleteTweetsResult, SavedUser, Thread, Tweet } from '@/utils/types';
+
+// Query keys for saved tweets, wherever they are stored (see savedStore.ts). Saves and deletes refetch
+// everything under `all`, so every page showing saved data stays current.
+export const savedKeys = {
+  all: ['saved'] as const,
+  users: () => ['saved', 'users'] as const,
+  tweetLists: () => ['saved', 'tweets'] as const,
+  tweets: (username?: string) => ['saved', 'tweets', username || null] as const,
+  trash: () => ['saved', 'trash'] as const,
+};
+
+// Errors from outside the backend (e.g. IndexedDB) get a retry as well
+const retryBackend = (failureCount: number, error: unknown) => {
+  if (failureCount >= 2) return false;
+  return !isBackendError(error) || isRetryableBackendError(error);
+};
+
+// Everything saved, or only what `username` saved
+export const useSavedTweets = (username?: string) => {
+  return useQuery({
+    queryKey: savedKeys.tweets(username),
+    queryFn: () => savedStore.listSavedTweets(username),
+    retry: retryBackend,
+  });
+};
+
+export const useSavedUsers = () => {
+  return useQuery({
+    queryKey: savedKeys.users(),
+    queryFn: savedStore.listSavedUsers,
+    retry: retryBackend,
+  });
+};
+
+export interface SaveTweetsVariables {
+  tweets: Tweet[];
+  username: string;
+}
+
+export const useSaveTweets = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Saves the backend can't take right now end up in the outbox (see outbox.ts)
+    mutationFn: ({ tweets, username }: SaveTweetsVariables) => saveOrQueue(tweets, username),
+    onMutate: async ({ tweets, username }) => {
+      await queryClient.cancelQueries({ queryKey: savedKeys.users() });
+      const previousUsers = queryClient.getQueryData<SavedUser[]>(savedKeys.users());
+
+      // Show the saver in the users list right away; the refetch fixes up
+      // the count once duplicates have been skipped
+      queryClient.setQueryData<SavedUser[]>(savedKeys.users(), users => {
+        if (!users) return users;
+        const existing = users.find(user => user.username === username);
+        if (!existing) {
+          return [...users, { username, tweetCount: tweets.length }];
+        }
+        return users.map(user => user === existing ? { ...user, tweetCount: user.tweetCount + tweets.length } : user);
+      });
+
+      return { previousUsers };
+    },
+    onSuccess: (outcome, _variables, context) => {
+      // Queued tweets aren't saved yet
+      if (outcome.status === 'queued') {
+        queryClient.setQueryData(savedKeys.users(), context?.previousUsers);
+      }
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(savedKeys.users(), context?.previousUsers);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: savedKeys.all });
+    },
+  });
+};
+
+// Drop tweets from a saved list, including from inside threads
+const withoutTweets = (response: ApiResponse, ids: Set<string>): ApiResponse => {
+  const data = response.data.flatMap<Tweet | Thread>(item => {
+    if (!('tweets' in item)) {
+      return ids.has(item.id) ? [] : [item];
+    }
+
+    const tweets = item.tweets.filter(tweet => !ids.has(tweet.id));
+    return tweets.length > 0 ? [{ ...item, tweets }] : [];
+  });
+
+  const removed = response.data.reduce((count, item) => {
+    const itemTweets = 'tweets' in item ? item.tweets : [item];
+    return count + itemTweets.filter(tweet => ids.has(tweet.id)).length;
+  }, 0);
+
+  return { ...response, data, count: Math.max(0, response.count - removed) };
+};
+
+type SavedSnapshot = [QueryKey, unknown][];
+
+const restoreSnapshot = (queryClient: QueryClient, snapshot?: SavedSnapshot) => {
+  snapshot?.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+};
+
+// The copy is written before anything is deleted: if the trash can't keep
+// it, nothing is deleted
+const trashBeforeDelete = async (kind: TrashKind, label: string, tweets: Tweet[]): Promise<TrashEntry | null> => {
+  try {
+    return await moveToTrash(kind, label, tweets);
+  } catch (error) {
+    console.error('Could not keep tweets in the trash, not deleting them:', error);
+    throw createTrashError('Could not move these tweets to the trash, so nothing was deleted');
+  }
+};
+
+// Cleaning up after a failed or partial delete is best effort
+const settleTrash = async (entry: TrashEntry | null, tweets: Tweet[]): Promise<TrashEntry | null> => {
+  if (!entry) return null;
+  try {
+    return await keepInTrash(entry, tweets);
+  } catch (error) {
+    console.error('Could not update the trash after deleting:', error);
+    return entry;
+  }
+};
+
+export interface DeleteSavedTweetsVariables {
+  tweets: Tweet[];
+  kind: TrashKind;
+  label: string;
+  // Who saved them, for tweets that don't say (restores save them back there)
+  username?: string;
+}
+
+const withSaver = (tweets: Tweet[], username?: string): Tweet[] =>
+  username ? tweets.map(tweet => tweet.savedBy ? tweet : { ...tweet, savedBy: username }) : tweets;
+
+// `trashEntry` is what Undo restores; null when nothing was kept
+export interface DeleteSavedTweetsResult extends DeleteTweetsResult {
+  trashEntry: TrashEntry | null;
+}
+
+export interface DeleteSavedUserResult {
+  deletedCount: number;
+  trashEntry: TrashEntry | null;
+}
+
+// Delete tweets (a tweet, a thread or a selection) into the trash. Deleted
+// tweets disappear at once; any the backend kept come back, and the result
+// says which.
+export const useDeleteSavedTweets = () => {
+  const queryClient = useQueryClient();
+
+  const removeFromLists = (ids: string[]) => {
+    const idSet = new Set(ids);
+    queryClient.setQueriesData<ApiResponse>({ queryKey: savedKeys.tweetLists() }, response =>
+      response && withoutTweets(response, idSet)
+    );
+  };
+
+  return useMutation({
+    mutationFn: async ({ tweets, kind, label, username }: DeleteSavedTweetsVariables): Promise<DeleteSavedTweetsResult> => {
+      const copies = withSaver(tweets, username);
+      const entry = await trashBeforeDelete(kind, label, copies);
+
+      let result: DeleteTweetsResult;
+      try {
+        result = await savedStore.deleteTweets(tweets.map(tweet => tweet.id));
+      } catch (error) {
+        await settleTrash(entry, []);
+        throw error;
+      }
+
+      // Tweets the backend kept don't belong in the trash
+      const deleted = new Set(result.deleted);
+      const trashEntry = await settleTrash(entry, copies.filter(tweet => deleted.has(tweet.id)));
+      return { ...result, trashEntry };
+    },
+    onMutate: async ({ tweets }) => {
+      await queryClient.cancelQueries({ queryKey: savedKeys.all });
+      const previous: SavedSnapshot = queryClient.getQueriesData({ queryKey: savedKeys.all });
+      removeFromLists(tweets.map(tweet => tweet.id));
+      return { previous };
+    },
+    onSuccess: (result, _variables, context) => {
+      if (result.failed.length > 0) {
+        restoreSnapshot(queryClient, context?.previous);
+        removeFromLists(result.deleted);
+      }
+    },
+    onError: (_error, _variables, context) => {
+      restoreSnapshot(queryClient, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: savedKeys.all });
+    },
+  });
+};
+
+// Delete everything one user saved into the trash
+export const useDeleteSavedUser = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (username: string): Promise<DeleteSavedUserResult> => {
+      // Read them first so there is something to restore; if that fails
+      // nothing is deleted
+      const saved = await savedStore.listSavedTweets(username);
+      const tweets = saved.data.flatMap(item => 'tweets' in item ? item.tweets : [item]);
+
+      const trashEntry = await trashBeforeDelete('user', `All tweets saved by @${username}`, withSaver(tweets, username));
+      try {
+        const deletedCount = await savedStore.deleteUserTweets(username);
+        return { deletedCount, trashEntry };
+      } catch (error) {
+        await settleTrash(trashEntry, []);
+        throw error;
+      }
+    },
+    onMutate: async (username) => {
+      await queryClient.cancelQueries({ queryKey: savedKeys.all });
+      const previous: SavedSnapshot = queryClient.getQueriesData({ queryKey: savedKeys.all });
+
+      queryClient.setQueryData<SavedUser[]>(savedKeys.users(), users =>
+        users?.filter(user => user.username !== username)
+      );
+      queryClient.removeQueries({ queryKey: savedKeys.tweets(username) });
+
+      return { previous };
+    },
+    onError: (_error, _username, context) => {
+      restoreSnapshot(queryClient, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: savedKeys.all });
+    },
+  });
+};
+
+// Reconcile local saved tweets with the backend, then show the result
+export const useSyncSavedTweets = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: syncSavedTweets,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: savedKeys.all });
+    },
+  });
+};
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { getLastSyncedAt, getStorageMode, subscribeToStorageMode } from '@/utils/savedStore';
+
+// Where saved tweets are stored and when they were last synced, kept up to
+// date when either changes (in any tab)
+export const useStorageMode = () => {
+  const [mode, setMode] = useState(getStorageMode);
+  const [lastSyncedAt, setLastSyncedAt] = useState(getLastSyncedAt);
+
+  useEffect(() => {
+    return subscribeToStorageMode(() => {
+      setMode(getStorageMode());
+      setLastSyncedAt(getLastSyncedAt());
+    });
+  }, []);
+
+  return { mode, lastSyncedAt };
+};
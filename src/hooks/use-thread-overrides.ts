@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Thread, Tweet } from '@/utils/types';
+import {
+  getThreadOverrides,
+  mergeIntoThread,
+  reorderThread,
+  resetThread,
+  splitThread,
+  subscribeToThreadOverrides,
+  ThreadOverride
+} from '@/utils/threadOverrides';
+
+const NO_OVERRIDES: ThreadOverride[] = [];
+
+// Manual thread edits for one account, kept up to date when they change
+// (in any tab). The edit functions do nothing without an account.
+export const useThreadOverrides = (username: string | null) => {
+  const [overrides, setOverrides] = useState(() => username ? getThreadOverrides(username) : NO_OVERRIDES);
+
+  useEffect(() => {
+    const refresh = () => setOverrides(username ? getThreadOverrides(username) : NO_OVERRIDES);
+    refresh();
+    return subscribeToThreadOverrides(refresh);
+  }, [username]);
+
+  const merge = useCallback((tweets: Tweet[]) => {
+    if (username) mergeIntoThread(username, tweets);
+  }, [username]);
+
+  const split = useCallback((thread: Thread, tweetId: string) => {
+    if (username) splitThread(username, thread, tweetId);
+  }, [username]);
+
+  const reorder = useCallback((thread: Thread, tweetIds: string[]) => {
+    if (username) reorderThread(username, thread, tweetIds);
+  }, [username]);
+
+  const reset = useCallback((thread: Thread) => {
+    if (username) resetThread(username, thread);
+  }, [username]);
+
+  return { overrides, merge, split, reorder, reset };
+};
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { emptyTrash, listTrash, purgeTrashEntry, restoreTrashEntry, TrashEntry } from '@/utils/trash';
+import { savedKeys } from '@/hooks/use-saved-tweets';
+import { useToast } from '@/hooks/use-toast';
+
+// Deleted saved tweets that can still be restored
+export const useTrash = () => {
+  return useQuery({
+    queryKey: savedKeys.trash(),
+    queryFn: listTrash,
+  });
+};
+
+// Restore a trash entry (also what Undo in delete toasts does)
+export const useRestoreTrash = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: restoreTrashEntry,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: savedKeys.all });
+    },
+  });
+};
+
+// Handler for the Undo action of delete toasts
+export const useUndoDelete = () => {
+  const { mutateAsync: restore } = useRestoreTrash();
+  const { toast } = useToast();
+
+  return useCallback(async (entry: TrashEntry) => {
+    try {
+      const result = await restore(entry.id);
+      toast({
+        title: 'Restored',
+        description: `${result.count} tweets are back in the saved collection.`,
+      });
+    } catch (error) {
+      console.error('Error restoring deleted tweets:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not restore the deleted tweets. They are still in the trash.',
+        variant: 'destructive',
+      });
+    }
+  }, [restore, toast]);
+};
+
+// Permanently forget one entry, or every entry when called without an id
+export const usePurgeTrash = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id?: string) => id ? purgeTrashEntry(id) : emptyTrash(),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: savedKeys.trash() });
+    },
+  });
+};
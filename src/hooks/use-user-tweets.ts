@@ -0,0 +1,93 @@
+import { useCallback, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { isAbortError, streamUserTweets, TweetStreamEvent } from '@/utils/api';
+import { Tweet } from '@/utils/types';
+
+// Conversation mode fetches are kept apart from author-only ones
+export const userTweetsKey = (username: string, conversationDepth = 0) =>
+  ['userTweets', username.toLowerCase(), conversationDepth] as const;
+
+export interface UseUserTweetsOptions {
+  // Include other people's replies this many levels deep; 0 for the author only
+  conversationDepth?: number;
+  // Every event of the stream, for progress reporting
+  onEvent?: (event: TweetStreamEvent) => void;
+  // A fetch ran to the end; `stoppedByQuota` when the daily budget cut it short
+  onFetched?: (tweets: Tweet[], stoppedByQuota: boolean) => void;
+  // A fetch failed (not called for cancelled fetches)
+  onError?: (error: unknown) => void;
+  // Stale cached tweets were replaced by a background refresh
+  onRevalidated?: (tweets: Tweet[]) => void;
+}
+
+// Tweets of one account. Batches land in the query data as they stream in,
+// so partial results render while replies are still being crawled. The
+// tweet cache in api.ts decides what is fresh, so the query itself only
+// fetches when asked to (see `search`). Fetches are cancelled when the
+// account changes or the component unmounts.
+export const useUserTweets = (username: string | null, options: UseUserTweetsOptions = {}) => {
+  const queryClient = useQueryClient();
+  const forceRefreshRef = useRef(false);
+  // Callbacks are read when events arrive, so they never go stale mid-fetch
+  const callbacksRef = useRef(options);
+  callbacksRef.current = options;
+
+  const query = useQuery({
+    queryKey: userTweetsKey(username || '', options.conversationDepth),
+    enabled: !!username,
+    staleTime: Infinity,
+    // Rate limits are already retried per request, and a failed search
+    // shows its own recovery actions
+    retry: false,
+    queryFn: async ({ signal, queryKey }) => {
+      const forceRefresh = forceRefreshRef.current;
+      forceRefreshRef.current = false;
+
+      const tweets: Tweet[] = [];
+      let stoppedByQuota = false;
+      try {
+        const stream = streamUserTweets(username!, {
+          forceRefresh,
+          conversationDepth: queryKey[2],
+          signal,
+          onRevalidated: freshTweets => {
+            queryClient.setQueryData(queryKey, freshTweets);
+            callbacksRef.current.onRevalidated?.(freshTweets);
+          }
+        });
+
+        for await (const event of stream) {
+          callbacksRef.current.onEvent?.(event);
+          if (event.type === 'quota') {
+            stoppedByQuota = true;
+          } else if (event.type === 'batch') {
+            tweets.push(...event.tweets);
+            queryClient.setQueryData(queryKey, [...tweets]);
+          }
+        }
+      } catch (error) {
+        if (!isAbortError(error)) {
+          callbacksRef.current.onError?.(error);
+        }
+        throw error;
+      }
+
+      callbacksRef.current.onFetched?.(tweets, stoppedByQuota);
+      return tweets;
+    }
+  });
+
+  // Start over for `target`: drops what the query holds and fetches again,
+  // cancelling a fetch for the same account that is still running
+  const search = useCallback((target: string, forceRefresh = false, conversationDepth = 0) => {
+    forceRefreshRef.current = forceRefresh;
+    return queryClient.resetQueries({ queryKey: userTweetsKey(target, conversationDepth) }, { cancelRefetch: true });
+  }, [queryClient]);
+
+  // Replace the loaded tweets, e.g. after Fetch More or Sync
+  const setTweets = useCallback((target: string, tweets: Tweet[], conversationDepth = 0) => {
+    queryClient.setQueryData(userTweetsKey(target, conversationDepth), tweets);
+  }, [queryClient]);
+
+  return { ...query, search, setTweets };
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, CheckCircle, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { usePayloadDiagnostics } from '@/hooks/use-payload-diagnostics';
+import { clearPayloadDiagnostics } from '@/utils/diagnostics';
+
+const sortByCount = (counts: Record<string, number>) => Object.entries(counts).sort((a, b) => b[1] - a[1]);
+
+// Records the tweet provider sent that didn't match the expected schema
+const Diagnostics = () => {
+  const diagnostics = usePayloadDiagnostics();
+
+  if (diagnostics.total === 0) {
+    return (
+      <div className="text-center py-16">
+        <CheckCircle className="h-10 w-10 mx-auto mb-3 text-green-600" />
+        <h1 className="text-xl font-bold mb-1">No invalid records</h1>
+        <p className="text-sm text-muted-foreground">
+          Every record received from the tweet provider matched the expected format.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <AlertTriangle className="h-6 w-6 text-amber-600" />
+            Payload diagnostics
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {diagnostics.total} {diagnostics.total === 1 ? 'record was' : 'records were'} skipped because
+            they didn't match the expected format. This usually means the provider changed its responses.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={clearPayloadDiagnostics}>
+          <Trash2 className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="border rounded-lg p-4 bg-white/80">
+          <h2 className="text-sm font-medium mb-2">Failed fields</h2>
+          <ul className="space-y-1 text-xs">
+            {sortByCount(diagnostics.byField).map(([field, count]) => (
+              <li key={field} className="flex justify-between gap-2">
+                <span className="truncate font-mono">{field}</span>
+                <span>{count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="border rounded-lg p-4 bg-white/80">
+          <h2 className="text-sm font-medium mb-2">By endpoint</h2>
+          <ul className="space-y-1 text-xs">
+            {sortByCount(diagnostics.byEndpoint).map(([endpoint, count]) => (
+              <li key={endpoint} className="flex justify-between gap-2">
+                <span className="truncate font-mono">{endpoint}</span>
+                <span>{count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-sm font-medium mb-2">Recent records</h2>
+        <Accordion type="multiple" className="border rounded-lg bg-white/80 px-4">
+          {diagnostics.records.map((record, index) => (
+            <AccordionItem key={`${record.receivedAt}-${index}`} value={`${record.receivedAt}-${index}`}>
+              <AccordionTrigger className="text-sm">
+                <span className="flex flex-wrap items-center gap-2 text-left">
+                  <span className="font-mono">{record.endpoint}</span>
+                  {record.recordId && <span className="text-muted-foreground">#{record.recordId}</span>}
+                  <Badge variant="secondary">{record.issues.length} {record.issues.length === 1 ? 'issue' : 'issues'}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(record.receivedAt), { addSuffix: true })}
+                  </span>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="space-y-1 text-xs mb-3">
+                  {record.issues.map((issue, issueIndex) => (
+                    <li key={issueIndex}>
+                      <span className="font-mono">{issue.path}</span>: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+                <pre className="text-xs bg-muted rounded p-2 overflow-auto max-h-64">{record.sample}</pre>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </div>
+    </div>
+  );
+};
+
+export default Diagnostics;
@@ -1,15 +1,26 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import Search from '@/components/Search';
 import TweetCard from '@/components/TweetCard';
 import TweetThread from '@/components/TweetThread';
 import TweetCategories from '@/components/TweetCategories';
 import TweetPagination from '@/components/TweetPagination';
 import TweetFetchSettings from '@/components/TweetFetchSettings';
+import CacheStatus from '@/components/CacheStatus';
+import FetchProgress from '@/components/FetchProgress';
+import FetchErrorState from '@/components/FetchErrorState';
 import { Button } from '@/components/ui/button';
-import { fetchUserTweets, groupThreads, saveSelectedTweets } from '@/utils/api';
+import { streamMoreUserTweets, streamSyncUserTweets, groupThreads, getUserTweetsCacheInfo, purgeUserTweetsCache, isAbortError, CacheInfo } from '@/utils/api';
 import { Tweet, Thread, TweetCategory, PaginationState } from '@/utils/types';
-import { CheckCircle, Save, Loader2, CheckSquare, X, User, RefreshCw } from 'lucide-react';
+import { checkThreadNumbering } from '@/utils/threadNumbering';
+import { countRetweets, withoutRetweets } from '@/utils/referencedTweets';
+import { FetchError, toFetchError } from '@/utils/errors';
+import { createQuotaExhaustedError, getDailyBudget } from '@/utils/quota';
+import { CheckCircle, Save, Loader2, CheckSquare, X, User, RefreshCw, Merge } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useFetchProgress } from '@/hooks/use-fetch-progress';
+import { useUserTweets } from '@/hooks/use-user-tweets';
+import { useSaveTweets } from '@/hooks/use-saved-tweets';
+import { useThreadOverrides } from '@/hooks/use-thread-overrides';
 import { useNavigate } from 'react-router-dom';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -20,15 +31,19 @@ const SESSION_ITEMS_KEY = 'tweet-train-items';
 const SESSION_USER_KEY = 'tweet-train-user';
 const SESSION_CATEGORY_KEY = 'tweet-train-category';
 const SESSION_PAGE_KEY = 'tweet-train-page';
+const SESSION_RETWEETS_KEY = 'tweet-train-retweets';
+const SESSION_CONVERSATION_KEY = 'tweet-train-conversation';
+
+const EMPTY_TWEETS: Tweet[] = [];
 
 const Index = () => {
-  const [allItems, setAllItems] = useState<(Tweet | Thread)[]>([]);
   const [displayedItems, setDisplayedItems] = useState<(Tweet | Thread)[]>([]);
   const [selectedTweets, setSelectedTweets] = useState<Set<string>>(new Set());
-  const [isLoading, setIsLoading] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
   const [currentUser, setCurrentUser] = useState<string | null>(null);
+  // Levels of other people's replies the current search includes, 0 for none
+  const [conversationDepth, setConversationDepth] = useState(0);
   const [selectedCategory, setSelectedCategory] = useState<TweetCategory>('all');
+  const [includeRetweets, setIncludeRetweets] = useState(true);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [saveUsername, setSaveUsername] = useState('');
   const [pagination, setPagination] = useState<PaginationState>({
@@ -37,9 +52,89 @@ const Index = () => {
     itemsPerPage: 10
   });
   const [isFetchingMore, setIsFetchingMore] = useState(false);
-  const [fetchedTweetCount, setFetchedTweetCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [cacheInfo, setCacheInfo] = useState<CacheInfo | null>(null);
+  // The daily budget ran out before a search found anything
+  const [quotaError, setQuotaError] = useState<FetchError | null>(null);
+  const currentUserRef = useRef<string | null>(null);
+  // Controller for the fetch currently in flight, if any
+  const fetchControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const { progress: fetchProgress, start: startProgress, track: trackProgress, finish: finishProgress } = useFetchProgress();
+  const saveMutation = useSaveTweets();
+  // Manual merges, splits and reorders for the account on screen
+  const {
+    overrides: threadOverrides,
+    merge: mergeThread,
+    split: splitThread,
+    reorder: reorderThread,
+    reset: resetThread
+  } = useThreadOverrides(currentUser);
   const navigate = useNavigate();
+  
+  const userTweets = useUserTweets(currentUser, {
+    conversationDepth,
+    onEvent: trackProgress,
+    onFetched: (tweets, stoppedByQuota) => handleFetched(currentUser!, tweets, stoppedByQuota),
+    onError: (error) => {
+      console.error('Error fetching tweets:', error);
+      toast({
+        title: 'Error',
+        description: toFetchError(error).message,
+        variant: 'destructive',
+      });
+    },
+    onRevalidated: (freshTweets) => handleRevalidated(currentUser!, freshTweets)
+  });
+  const { search: searchTweets, setTweets } = userTweets;
+  const tweets = userTweets.data ?? EMPTY_TWEETS;
+  // Regroup everything received so far so partial threads fill in as replies arrive
+  const allItems = useMemo(() => groupThreads(tweets, threadOverrides), [tweets, threadOverrides]);
+  const isLoading = userTweets.isFetching && tweets.length === 0;
+  // First results are on screen but threads are still being completed
+  const isStreaming = userTweets.isFetching && tweets.length > 0;
+  // Why the last search came back empty, if it failed
+  const fetchError = userTweets.error && !isAbortError(userTweets.error)
+    ? toFetchError(userTweets.error)
+    : quotaError;
+
+  // Keep a ref to the current user so background updates can tell whether
+  // they still belong to what is on screen
+  useEffect(() => {
+    currentUserRef.current = currentUser;
+  }, [currentUser]);
+
+  // Stop any in-flight fetch when leaving the page
+  useEffect(() => {
+    return () => fetchControllerRef.current?.abort();
+  }, []);
+
+  // The progress panel goes away once the search is over, however it ended
+  useEffect(() => {
+    if (!userTweets.isFetching) {
+      finishProgress();
+    }
+  }, [userTweets.isFetching, finishProgress]);
+
+  // Cancels the previous fetch and hands out a signal for the next one
+  const startFetch = (): AbortSignal => {
+    fetchControllerRef.current?.abort();
+    const controller = new AbortController();
+    fetchControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const refreshCacheInfo = useCallback(async (username: string) => {
+    setCacheInfo(await getUserTweetsCacheInfo(username, conversationDepth));
+  }, [conversationDepth]);
+
+  useEffect(() => {
+    if (currentUser) {
+      refreshCacheInfo(currentUser);
+    } else {
+      setCacheInfo(null);
+    }
+  }, [currentUser, refreshCacheInfo]);
 
   // Load state from session storage on initial load
   useEffect(() => {
@@ -48,19 +143,28 @@ const Index = () => {
       const savedUser = sessionStorage.getItem(SESSION_USER_KEY);
       const savedCategory = sessionStorage.getItem(SESSION_CATEGORY_KEY);
       const savedPage = sessionStorage.getItem(SESSION_PAGE_KEY);
+      const savedRetweets = sessionStorage.getItem(SESSION_RETWEETS_KEY);
+      const savedConversation = parseInt(sessionStorage.getItem(SESSION_CONVERSATION_KEY) || '0', 10) || 0;
       
-      if (savedItems) {
-        setAllItems(JSON.parse(savedItems));
+      // Seed the query with what was on screen so it isn't fetched again
+      if (savedItems && savedUser) {
+        const items: (Tweet | Thread)[] = JSON.parse(savedItems);
+        setTweets(savedUser, items.flatMap(item => 'tweets' in item ? item.tweets : [item]), savedConversation);
       }
       
       if (savedUser) {
         setCurrentUser(savedUser);
+        setConversationDepth(savedConversation);
       }
       
       if (savedCategory) {
         setSelectedCategory(savedCategory as TweetCategory);
       }
       
+      if (savedRetweets) {
+        setIncludeRetweets(savedRetweets === 'true');
+      }
+      
       if (savedPage) {
         setPagination(prev => ({
           ...prev,
@@ -70,7 +174,7 @@ const Index = () => {
     } catch (error) {
       console.error('Error loading state from session storage:', error);
     }
-  }, []);
+  }, [setTweets]);
   
   // Save state to session storage when it changes
   useEffect(() => {
@@ -80,19 +184,31 @@ const Index = () => {
     
     if (currentUser) {
       sessionStorage.setItem(SESSION_USER_KEY, currentUser);
+      sessionStorage.setItem(SESSION_CONVERSATION_KEY, String(conversationDepth));
     }
     
     sessionStorage.setItem(SESSION_CATEGORY_KEY, selectedCategory);
     sessionStorage.setItem(SESSION_PAGE_KEY, pagination.currentPage.toString());
-  }, [allItems, currentUser, selectedCategory, pagination.currentPage]);
+    sessionStorage.setItem(SESSION_RETWEETS_KEY, String(includeRetweets));
+  }, [allItems, currentUser, conversationDepth, selectedCategory, pagination.currentPage, includeRetweets]);
+
+  const retweetCount = useMemo(
+    () => countRetweets(allItems),
+    [allItems]
+  );
+
+  // Everything on offer before picking a category
+  const visibleItems = useMemo(() => {
+    return includeRetweets ? allItems : withoutRetweets(allItems);
+  }, [allItems, includeRetweets]);
 
   // Filter items based on selected category
   const filteredItems = useMemo(() => {
     if (selectedCategory === 'all') {
-      return allItems;
+      return visibleItems;
     }
 
-    return allItems.filter(item => {
+    return visibleItems.filter(item => {
       if (selectedCategory === 'thread' && 'tweets' in item) {
         return true;
       }
@@ -107,7 +223,7 @@ const Index = () => {
       
       return false;
     });
-  }, [allItems, selectedCategory]);
+  }, [visibleItems, selectedCategory]);
 
   // Update displayed items when filteredItems or pagination changes
   useEffect(() => {
@@ -176,13 +292,13 @@ const Index = () => {
   // Calculate category counts
   const categoryTweetCounts = useMemo(() => {
     const counts: Record<TweetCategory, number> = {
-      all: allItems.length,
+      all: visibleItems.length,
       normal: 0,
       thread: 0,
       long: 0
     };
 
-    allItems.forEach(item => {
+    visibleItems.forEach(item => {
       if ('tweets' in item) {
         counts.thread++;
       } else {
@@ -194,96 +310,87 @@ const Index = () => {
       }
     });
 
+    return counts;
+  }, [visibleItems]);
+
+  // Numbered threads that do or don't have every tweet their author announced
+  const threadNumberingCounts = useMemo(() => {
+    const counts = { complete: 0, incomplete: 0 };
+    allItems.forEach(item => {
+      if (!('tweets' in item)) return;
+      const { status } = checkThreadNumbering(item.tweets);
+      if (status !== 'unknown') counts[status]++;
+    });
     return counts;
   }, [allItems]);
 
-  const handleSearch = async (username: string) => {
-    setIsLoading(true);
-    setAllItems([]);
+  // Stale cached tweets were served; swap in the refreshed copy if the
+  // same account is still on screen
+  const handleRevalidated = (username: string, tweets: Tweet[]) => {
+    if (currentUserRef.current?.toLowerCase() !== username.toLowerCase()) return;
+    
+    refreshCacheInfo(username);
+    
+    toast({
+      title: 'Tweets updated',
+      description: `Refreshed cached tweets for @${username}`,
+    });
+  };
+
+  const notifyQuotaReached = (budget: number, tweetCount: number) => {
+    toast({
+      title: 'Daily API budget reached',
+      description: `Stopped after ${budget} calls today. Showing the ${tweetCount} tweets fetched so far.`,
+      variant: 'destructive',
+    });
+  };
+
+  // A search ran to the end
+  const handleFetched = (username: string, tweets: Tweet[], stoppedByQuota: boolean) => {
+    console.log(`Received ${tweets.length} tweets from API call`);
+    refreshCacheInfo(username);
+    
+    if (stoppedByQuota) {
+      notifyQuotaReached(getDailyBudget(), tweets.length);
+      if (tweets.length === 0) setQuotaError(createQuotaExhaustedError());
+      return;
+    }
+    
+    if (tweets.length === 0) {
+      toast({
+        title: 'No tweets found',
+        description: `We couldn't find any tweets for @${username}`,
+      });
+      return;
+    }
+    
+    toast({
+      title: 'Tweets loaded',
+      description: `Fetched ${tweets.length} tweets from @${username}`,
+    });
+  };
+
+  // Searches again with the current conversation depth unless told otherwise
+  const handleSearch = async (username: string, depth = conversationDepth, forceRefresh = false) => {
+    // A new search replaces any Fetch More or Sync still running
+    fetchControllerRef.current?.abort();
+    setIsFetchingMore(false);
+    setIsSyncing(false);
+    startProgress();
     setDisplayedItems([]);
     setSelectedTweets(new Set());
-    setCurrentUser(username);
+    setQuotaError(null);
     setSelectedCategory('all');
-    setFetchedTweetCount(0);
     setPagination({
       currentPage: 1,
       totalItems: 0,
       itemsPerPage: 10
     });
     
-    try {
-      console.log(`Starting tweet fetch for ${username}...`);
-      const tweets = await fetchUserTweets(username);
-      console.log(`Received ${tweets.length} tweets from API call`);
-      setFetchedTweetCount(tweets.length);
-      
-      if (tweets.length === 0) {
-        toast({
-          title: 'No tweets found',
-          description: `We couldn't find any tweets for @${username}`,
-        });
-        setIsLoading(false);
-        return;
-      }
-      
-      // Log a sample of tweets to debug
-      if (tweets.length > 0) {
-        console.log("Sample of first tweet:", {
-          id: tweets[0].id,
-          text: tweets[0].text?.substring(0, 50) + '...',
-          author: tweets[0].author?.username
-        });
-      }
-      
-      console.log("Grouping tweets into threads...");
-      const groupedItems = groupThreads(tweets);
-      console.log(`After grouping, we have ${groupedItems.length} items (threads + individual tweets)`);
-      
-      // Count actual total tweets
-      let totalTweetCount = 0;
-      groupedItems.forEach(item => {
-        if ('tweets' in item) {
-          totalTweetCount += item.tweets.length;
-        } else {
-          totalTweetCount += 1;
-        }
-      });
-      
-      console.log(`Total tweet count across all items: ${totalTweetCount}`);
-      
-      // Explicitly set the items in state with a timeout to ensure UI updates
-      setTimeout(() => {
-        setAllItems(groupedItems);
-        
-        // Ensure first page of items is displayed
-        const firstPageItems = groupedItems.slice(0, pagination.itemsPerPage);
-        setDisplayedItems(firstPageItems);
-        
-        // Update pagination with the correct total items
-        setPagination(prev => ({
-          ...prev,
-          currentPage: 1,
-          totalItems: groupedItems.length
-        }));
-        
-        console.log(`Set ${firstPageItems.length} items to display`);
-        
-        toast({
-          title: 'Tweets loaded',
-          description: `Fetched ${tweets.length} tweets from @${username}`,
-        });
-        
-        setIsLoading(false);
-      }, 500);
-    } catch (error) {
-      console.error('Error fetching tweets:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to fetch tweets. Please try again.',
-        variant: 'destructive',
-      });
-      setIsLoading(false);
-    }
+    console.log(`Starting tweet fetch for ${username}${depth > 0 ? ` with replies ${depth} levels deep` : ''}...`);
+    setCurrentUser(username);
+    setConversationDepth(depth);
+    await searchTweets(username, forceRefresh, depth);
   };
 
   const handlePageChange = (page: number) => {
@@ -379,33 +486,52 @@ const Index = () => {
     setSaveUsername(currentUser || '');
   };
   
+  // Selected tweets as grouped, so thread tweets carry their thread_position
+  const getSelectedTweets = (): Tweet[] => {
+    const selected: Tweet[] = [];
+    
+    allItems.forEach(item => {
+      if ('tweets' in item) {
+        item.tweets.forEach(tweet => {
+          if (selectedTweets.has(tweet.id)) {
+            selected.push(tweet);
+          }
+        });
+      } else {
+        if (selectedTweets.has(item.id)) {
+          selected.push(item);
+        }
+      }
+    });
+    
+    return selected;
+  };
+  
   const handleConfirmSave = async () => {
-    setIsSaving(true);
     setSaveDialogOpen(false);
     
     try {
-      const tweetsToSave: Tweet[] = [];
+      const tweetsToSave = getSelectedTweets();
       
-      allItems.forEach(item => {
-        if ('tweets' in item) {
-          item.tweets.forEach(tweet => {
-            if (selectedTweets.has(tweet.id)) {
-              tweetsToSave.push(tweet);
-            }
-          });
-        } else {
-          if (selectedTweets.has(item.id)) {
-            tweetsToSave.push(item);
-          }
-        }
-      });
-      
-      await saveSelectedTweets(tweetsToSave, saveUsername);
+      // Saved lists on other pages refresh once this settles
+      const outcome = await saveMutation.mutateAsync({ tweets: tweetsToSave, username: saveUsername });
       setSelectedTweets(new Set());
-      
+
+      // The selection is safe in the outbox and goes out on its own later
+      if (outcome.status === 'queued') {
+        toast({
+          title: 'Saved for Later',
+          description: `Couldn't reach the backend. ${tweetsToSave.length} tweets are queued and will be saved when it's reachable again.`,
+        });
+        return;
+      }
+
+      const { result } = outcome;
       toast({
-        title: 'Success',
-        description: `${tweetsToSave.length} tweets saved successfully.`,
+        title: 'Tweets Saved',
+        description: result.skippedCount
+          ? `${result.count} tweets saved. ${result.skippedCount} duplicates skipped.`
+          : `${result.count} tweets saved to database.`,
       });
       
       // Navigate directly to the user's saved tweets
@@ -417,11 +543,38 @@ const Index = () => {
         description: 'Failed to save selected tweets',
         variant: 'destructive',
       });
-    } finally {
-      setIsSaving(false);
     }
   };
 
+  // Put the selected tweets together as one thread, whatever the heuristics say
+  const handleMergeSelected = () => {
+    const tweetsToMerge = getSelectedTweets();
+    if (tweetsToMerge.length < 2) return;
+    
+    mergeThread(tweetsToMerge);
+    setSelectedTweets(new Set());
+    toast({
+      title: 'Thread merged',
+      description: `${tweetsToMerge.length} tweets now form one thread`,
+    });
+  };
+  
+  const handleSplitThread = (thread: Thread, tweetId: string) => {
+    splitThread(thread, tweetId);
+    toast({
+      title: 'Thread split',
+      description: 'The thread was split in two at the chosen tweet',
+    });
+  };
+  
+  const handleResetThread = (thread: Thread) => {
+    resetThread(thread);
+    toast({
+      title: 'Grouping restored',
+      description: 'These tweets are grouped automatically again',
+    });
+  };
+
   const allSelected = displayedItems.length > 0 && displayedItems.every(item => {
     if ('tweets' in item) {
       return item.tweets.every(tweet => selectedTweets.has(tweet.id));
@@ -441,70 +594,164 @@ const Index = () => {
       return;
     }
 
+    const signal = startFetch();
     setIsFetchingMore(true);
+    startProgress();
     
     try {
       console.log(`Fetching ${count} more tweets for ${currentUser}...`);
       
-      // Pass specific options to indicate we want to fetch more
-      const existingTweets = allItems.flatMap(item => 
-        'tweets' in item ? item.tweets : [item]
-      );
-      
-      const additionalTweets = await fetchUserTweets(currentUser, {
-        initialFetch: count,
-        maxTweets: fetchedTweetCount + count
-      });
+      const existingTweets = tweets;
       
       // Filter out tweets we already have
       const existingIds = new Set(existingTweets.map(t => t.id));
-      const newTweets = additionalTweets.filter(tweet => !existingIds.has(tweet.id));
+      const newTweets: Tweet[] = [];
+      let stoppedByQuota = false;
+      // Continues from where the last fetch for this account stopped
+      const stream = streamMoreUserTweets(currentUser, { count, conversationDepth, signal });
       
-      console.log(`Got ${newTweets.length} new tweets out of ${additionalTweets.length} total`);
+      for await (const event of stream) {
+        if (signal.aborted) return;
+        trackProgress(event);
+        if (event.type === 'quota') {
+          stoppedByQuota = true;
+          notifyQuotaReached(event.budget, newTweets.length);
+        }
+        if (event.type !== 'batch') continue;
+        
+        const batch = event.tweets.filter(tweet => !existingIds.has(tweet.id));
+        if (batch.length === 0) continue;
+        
+        // Combine existing and new tweets, then regroup
+        newTweets.push(...batch);
+        setTweets(currentUser, [...existingTweets, ...newTweets], conversationDepth);
+      }
+      if (signal.aborted) return;
+      
+      console.log(`Got ${newTweets.length} new tweets`);
+      refreshCacheInfo(currentUser);
+      if (stoppedByQuota) return;
       
       if (newTweets.length === 0) {
         toast({
           title: 'No new tweets',
           description: 'No additional tweets were found',
         });
-        setIsFetchingMore(false);
         return;
       }
       
-      // Combine existing and new tweets, then regroup
-      const combinedTweets = [...existingTweets, ...newTweets];
-      setFetchedTweetCount(combinedTweets.length);
-      
-      console.log(`Combined ${combinedTweets.length} tweets, regrouping...`);
-      const regroupedItems = groupThreads(combinedTweets);
-      
-      setAllItems(regroupedItems);
-      
       toast({
         title: 'Tweets fetched',
         description: `Added ${newTweets.length} new tweets`,
       });
     } catch (error) {
+      if (isAbortError(error)) return;
+      
       console.error('Error fetching more tweets:', error);
       toast({
-        title: 'Error',
-        description: 'Failed to fetch more tweets. Please try again.',
+        title: 'Failed to fetch more tweets',
+        description: toFetchError(error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      // A newer search owns the loading state now
+      if (!signal.aborted) {
+        setIsFetchingMore(false);
+        finishProgress();
+      }
+    }
+  };
+  
+  // Pull in tweets newer than what is loaded, keeping the current selection
+  const handleSync = async () => {
+    if (!currentUser) return;
+    
+    const signal = startFetch();
+    setIsSyncing(true);
+    startProgress();
+    
+    try {
+      const existingTweets = tweets;
+      const existingIds = new Set(existingTweets.map(t => t.id));
+      const newTweets: Tweet[] = [];
+      let summary: { newTweets: number; updatedThreads: number } | null = null;
+      
+      const stream = streamSyncUserTweets(currentUser, { knownTweets: existingTweets, conversationDepth, signal });
+      for await (const event of stream) {
+        if (signal.aborted) return;
+        trackProgress(event);
+        
+        if (event.type === 'quota') {
+          notifyQuotaReached(event.budget, newTweets.length);
+        } else if (event.type === 'sync') {
+          summary = event;
+        } else if (event.type === 'batch') {
+          const batch = event.tweets.filter(tweet => !existingIds.has(tweet.id));
+          if (batch.length === 0) continue;
+          
+          newTweets.push(...batch);
+          setTweets(currentUser, [...newTweets, ...existingTweets], conversationDepth);
+        }
+      }
+      if (signal.aborted) return;
+      
+      refreshCacheInfo(currentUser);
+      if (!summary) return;
+      
+      toast({
+        title: summary.newTweets > 0 ? 'Synced new tweets' : 'Already up to date',
+        description: `${summary.newTweets} new tweets, ${summary.updatedThreads} updated threads`,
+      });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      
+      console.error('Error syncing tweets:', error);
+      toast({
+        title: 'Failed to sync new tweets',
+        description: toFetchError(error).message,
         variant: 'destructive',
       });
     } finally {
-      setIsFetchingMore(false);
+      if (!signal.aborted) {
+        setIsSyncing(false);
+        finishProgress();
+      }
     }
   };
   
   // Add function to refresh tweets for current user
   const handleRefresh = () => {
     if (currentUser) {
-      // Clear session storage to force a fresh fetch
+      // Clear session storage and skip the cache to force a fresh fetch
       sessionStorage.removeItem(SESSION_ITEMS_KEY);
-      handleSearch(currentUser);
+      handleSearch(currentUser, conversationDepth, true);
     }
   };
 
+  // Leave a failed search behind and go back to an empty page
+  const handleNewSearch = () => {
+    fetchControllerRef.current?.abort();
+    sessionStorage.removeItem(SESSION_ITEMS_KEY);
+    sessionStorage.removeItem(SESSION_USER_KEY);
+    sessionStorage.removeItem(SESSION_CONVERSATION_KEY);
+    setCurrentUser(null);
+    setConversationDepth(0);
+    setQuotaError(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handlePurgeCache = async () => {
+    if (!currentUser) return;
+    
+    await purgeUserTweetsCache(currentUser, conversationDepth);
+    setCacheInfo(null);
+    
+    toast({
+      title: 'Cache cleared',
+      description: `Cached tweets for @${currentUser} were removed`,
+    });
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-blue-50 to-white">
       <div className="max-w-3xl mx-auto px-4 py-6 sm:py-12">
@@ -525,14 +772,21 @@ const Index = () => {
                 @{currentUser}
               </h2>
               <div className="text-sm text-muted-foreground">
-                Found {fetchedTweetCount} tweets
+                Found {tweets.length} tweets
+                {conversationDepth > 0 && ` · with replies from others, ${conversationDepth} ${conversationDepth === 1 ? 'level' : 'levels'} deep`}
               </div>
+              <CacheStatus
+                cacheInfo={cacheInfo}
+                onPurge={handlePurgeCache}
+                isFetching={isLoading || isStreaming || isFetchingMore || isSyncing}
+              />
             </div>
             
             <TweetFetchSettings
               onFetchMore={handleFetchMore}
               onRefresh={handleRefresh}
-              isFetching={isLoading || isFetchingMore}
+              onSync={handleSync}
+              isFetching={isLoading || isStreaming || isFetchingMore || isSyncing}
             />
           </div>
         )}
@@ -542,6 +796,10 @@ const Index = () => {
             selectedCategory={selectedCategory}
             onCategoryChange={setSelectedCategory}
             tweetCounts={categoryTweetCounts}
+            threadNumberingCounts={threadNumberingCounts}
+            includeRetweets={includeRetweets}
+            onIncludeRetweetsChange={setIncludeRetweets}
+            retweetCount={retweetCount}
           />
         )}
         
@@ -593,12 +851,22 @@ const Index = () => {
                   <X className="mr-1 h-4 w-4" />
                   Clear Selection
                 </Button>
+                <Button 
+                  onClick={handleMergeSelected}
+                  disabled={selectedTweets.size < 2}
+                  variant="outline"
+                  className="w-full sm:w-auto"
+                  title="Show the selected tweets as one thread"
+                >
+                  <Merge className="mr-1 h-4 w-4" />
+                  Merge into Thread
+                </Button>
                 <Button 
                   onClick={handleSaveSelected}
-                  disabled={isSaving}
+                  disabled={saveMutation.isPending}
                   className="w-full sm:w-auto"
                 >
-                  {isSaving ? (
+                  {saveMutation.isPending ? (
                     <>
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                       Saving...
@@ -615,13 +883,21 @@ const Index = () => {
           </div>
         )}
         
+        {/* Results are already showing while the rest of the fetch completes */}
+        {!isLoading && (isStreaming || isFetchingMore || isSyncing) && (
+          <FetchProgress state={fetchProgress} compact />
+        )}
+        
         {isLoading ? (
-          <div className="flex justify-center items-center py-20">
-            <div className="text-center">
-              <Loader2 className="h-10 w-10 animate-spin mx-auto mb-4 text-twitter" />
-              <p className="text-muted-foreground">Loading tweets...</p>
-            </div>
-          </div>
+          <FetchProgress state={fetchProgress} />
+        ) : currentUser && allItems.length === 0 && fetchError ? (
+          <FetchErrorState
+            error={fetchError}
+            username={currentUser}
+            onRetry={() => handleSearch(currentUser)}
+            onRefresh={handleRefresh}
+            onNewSearch={handleNewSearch}
+          />
         ) : currentUser && allItems.length === 0 ? (
           <div className="text-center py-10">
             <p className="text-muted-foreground mb-4">No tweets found for @{currentUser}</p>
@@ -690,6 +966,9 @@ const Index = () => {
                     selectedTweets={selectedTweets}
                     onSelectToggle={handleTweetSelect}
                     onSelectThread={handleThreadSelect}
+                    onSplit={handleSplitThread}
+                    onReorder={reorderThread}
+                    onResetGrouping={handleResetThread}
                   />
                 ) : (
                   <TweetCard 
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { usePurgeTrash, useRestoreTrash, useTrash } from '@/hooks/use-trash';
+import { TRASH_RETENTION_DAYS, TrashEntry, TrashKind } from '@/utils/trash';
+
+const KIND_LABELS: Record<TrashKind, string> = {
+  tweet: 'Tweet',
+  thread: 'Thread',
+  selection: 'Selection',
+  user: 'Saved user',
+};
+
+// Deleted saved tweets, restorable until they expire
+const Trash = () => {
+  const trashQuery = useTrash();
+  const restore = useRestoreTrash();
+  const purge = usePurgeTrash();
+  const [busy, setBusy] = useState<Record<string, boolean>>({});
+  const { toast } = useToast();
+  const entries = trashQuery.data ?? [];
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setBusy(prev => ({ ...prev, [entry.id]: true }));
+    try {
+      const result = await restore.mutateAsync(entry.id);
+      toast({
+        title: 'Restored',
+        description: result.skippedCount
+          ? `${result.count} tweets restored. ${result.skippedCount} were already saved again.`
+          : `${result.count} tweets restored.`,
+      });
+    } catch (error) {
+      console.error('Error restoring trash entry:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not restore these tweets',
+        variant: 'destructive',
+      });
+    } finally {
+      setBusy(prev => ({ ...prev, [entry.id]: false }));
+    }
+  };
+
+  const handlePurge = async (entry?: TrashEntry) => {
+    try {
+      await purge.mutateAsync(entry?.id);
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not empty the trash',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (trashQuery.isLoading) {
+    return (
+      <div className="flex justify-center items-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <Trash2 className="h-10 w-10 mx-auto mb-3 text-muted-foreground/60" />
+        <h1 className="text-xl font-bold mb-1">Trash is empty</h1>
+        <p className="text-sm text-muted-foreground">
+          Deleted saved tweets stay here for {TRASH_RETENTION_DAYS} days.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Trash2 className="h-6 w-6" />
+            Trash
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Deleted saved tweets can be restored for {TRASH_RETENTION_DAYS} days, then they are purged.
+          </p>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={purge.isPending}>
+              <Trash2 className="mr-1 h-4 w-4" />
+              Empty Trash
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {entries.length} deleted {entries.length === 1 ? 'item' : 'items'} will be gone for good.
+                This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => handlePurge()}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Empty Trash
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <ul className="space-y-3">
+        {entries.map(entry => (
+          <li key={entry.id} className="border rounded-lg p-4 bg-white/80">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{entry.label}</span>
+                  <Badge variant="secondary">{KIND_LABELS[entry.kind]}</Badge>
+                  <Badge variant="outline">{entry.tweets.length} {entry.tweets.length === 1 ? 'tweet' : 'tweets'}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Deleted {formatDistanceToNow(new Date(entry.deletedAt), { addSuffix: true })} ·
+                  purged {formatDistanceToNow(new Date(entry.expiresAt), { addSuffix: true })}
+                </p>
+                <p className="text-sm mt-2 line-clamp-2">{entry.tweets[0].full_text || entry.tweets[0].text}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => handleRestore(entry)} disabled={busy[entry.id]}>
+                  {busy[entry.id] ? (
+                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                  )}
+                  Restore
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-destructive"
+                  onClick={() => handlePurge(entry)}
+                  disabled={busy[entry.id]}
+                  title="Delete forever"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default Trash;
@@ -1,31 +1,25 @@
-import { TwitterResponse, Tweet, Thread } from './types';
-import { toast } from '@/hooks/use-toast';
-
-// API configuration
-const RAPID_API_KEY = 'b4b27d1b34mshf3db3929c9eff79p1f5231jsn86b34ff94118';
-const RAPID_API_HOST = 'twitter154.p.rapidapi.com';
-const BACKEND_API_URL = 'https://twitter-aee7.onrender.com/api/tweets';
-
-// Cache for API responses
-const API_CACHE = {
-  tweetDetails: new Map<string, Tweet>(),
-  userTweets: new Map<string, Tweet[]>(),
-  failedRequests: new Map<string, {
-    timestamp: number,
-    errorCode: number,
-    retryAfter?: number
-  }>()
-};
+import { SaveTweetsResult, Tweet, Thread, TweetPage, TweetSource, TweetSourceUser } from './types';
+import { createRapidApiSource } from './sources/rapidApi';
+import { createFixtureSource } from './sources/fixture';
+import { createXApiV2Source } from './sources/xApiV2';
+import { cacheDelete, cacheGet, cacheSet, cacheUpdate, isFresh } from './cache';
+import { apiScheduler, delay, subscribeToRequests } from './request';
+import { RequestPriority } from './scheduler';
+import { getDailyBudget, getQuotaUsage, isQuotaExhausted, isQuotaExhaustedError } from './quota';
+import { createFetchError, isAbortError, isFetchError, toFetchError } from './errors';
+import { savedStore } from './savedStore';
+import { findMissingParents, groupReplyThreads, limitReplyDepth } from './threadTree';
+import { applyThreadOverrides, ThreadOverride } from './threadOverrides';
 
-// Rate limiting
-const MIN_API_CALL_INTERVAL = 2000;
-const MAX_RETRIES = 2;
-const RETRY_DELAY = 3000;
-const FAILED_REQUEST_EXPIRY = 10 * 60 * 1000;
+export { isAbortError };
 
-let lastApiCallTime = 0;
-const requestQueue: (() => Promise<any>)[] = [];
-let isProcessingQueue = false;
+// Cache lifetimes for API responses. Stale entries are still served while
+// a fresh copy is fetched in the background.
+const CACHE_TTL = {
+  userTweets: 30 * 60 * 1000,
+  tweetDetails: 24 * 60 * 60 * 1000,
+  crawlState: 7 * 24 * 60 * 60 * 1000
+};
 
 // User configurable options
 export const TwitterConfig = {
@@ -35,6 +29,8 @@ export const TwitterConfig = {
   maxContinuations: 3, // Maximum number of continuation fetches
   replyMaxPages: 4, // Maximum number of pages when fetching replies
   retryDelay: 3000, // Delay between retries in ms
+  concurrency: 2, // Maximum API requests in flight at once
+  gapRepairBudget: 10, // Tweet lookups per fetch for filling gaps in threads
   setFetchLimit: (limit: number) => {
     if (limit > 0 && limit <= 100) {
       TwitterConfig.fetchLimit = limit;
@@ -44,275 +40,183 @@ export const TwitterConfig = {
     if (max > 0) {
       TwitterConfig.maxTweets = max;
     }
+  },
+  setConcurrency: (concurrency: number) => {
+    if (concurrency > 0 && concurrency <= 5) {
+      TwitterConfig.concurrency = concurrency;
+      apiScheduler.configure({ concurrency });
+    }
+  },
+  // 0 turns gap repair off
+  setGapRepairBudget: (budget: number) => {
+    if (budget >= 0 && budget <= 50) {
+      TwitterConfig.gapRepairBudget = budget;
+    }
   }
 };
 
-// Helper functions
-const rateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  const timeSinceLastCall = now - lastApiCallTime;
-  
-  if (timeSinceLastCall < MIN_API_CALL_INTERVAL) {
-    await new Promise(resolve => setTimeout(resolve, MIN_API_CALL_INTERVAL - timeSinceLastCall));
-  }
-  lastApiCallTime = Date.now();
+// Worst-case number of API calls for one fetch: user lookup, first page,
+// reply pages for the top threads, then each continuation page plus reply
+// pages for up to 5 threads found in it, and the gap repair lookups
+export const estimateFetchCost = (
+  initialFetch = TwitterConfig.fetchLimit,
+  maxTweets = TwitterConfig.maxTweets,
+  gapRepairBudget = TwitterConfig.gapRepairBudget
+): number => {
+  const continuations = Math.min(
+    TwitterConfig.maxContinuations,
+    Math.ceil(Math.max(0, maxTweets - initialFetch) / initialFetch)
+  );
+  const replyCalls = TwitterConfig.threadsToProcess * TwitterConfig.replyMaxPages;
+  const continuationReplyCalls = continuations * 5 * TwitterConfig.replyMaxPages;
+
+  return 1 + 1 + replyCalls + continuations + continuationReplyCalls + gapRepairBudget;
 };
 
-const processQueue = async () => {
-  if (isProcessingQueue || requestQueue.length === 0) return;
-  isProcessingQueue = true;
-  
-  while (requestQueue.length > 0) {
-    const request = requestQueue.shift();
-    if (request) {
-      try {
-        await request();
-        await rateLimit();
-      } catch (error) {
-        console.error('Error processing queued request:', error);
-      }
-    }
+// Tweet data source, picked at build time with VITE_TWEET_SOURCE
+const createDefaultSource = (): TweetSource => {
+  switch (import.meta.env.VITE_TWEET_SOURCE) {
+    case 'fixture':
+      return createFixtureSource(import.meta.env.VITE_TWEET_FIXTURES || '/fixtures/sample.json');
+    case 'x-v2':
+      // Always proxied: the X API refuses browser requests from other origins
+      return createXApiV2Source(import.meta.env.VITE_X_API_PROXY_URL);
+    default:
+      // Proxy mode keeps the RapidAPI key out of the browser bundle
+      return createRapidApiSource({
+        mode: import.meta.env.VITE_API_MODE === 'direct' ? 'direct' : 'proxy',
+        proxyUrl: import.meta.env.VITE_API_PROXY_URL,
+        apiKey: import.meta.env.VITE_RAPIDAPI_KEY,
+      });
   }
-  isProcessingQueue = false;
 };
 
-const queueRequest = (request: () => Promise<any>): Promise<any> => {
-  return new Promise((resolve, reject) => {
-    const wrappedRequest = async () => {
-      try {
-        const result = await request();
-        resolve(result);
-      } catch (error) {
-        reject(error);
-      }
-    };
-    requestQueue.push(wrappedRequest);
-    processQueue();
-  });
+let tweetSource: TweetSource = createDefaultSource();
+
+export const getTweetSource = (): TweetSource => tweetSource;
+
+// Swap the provider at runtime (tests, offline development). Cache keys
+// include the provider name, so results never leak between providers.
+export const setTweetSource = (source: TweetSource) => {
+  tweetSource = source;
 };
 
-const hasRecentlyFailed = (url: string): boolean => {
-  const failedRequest = API_CACHE.failedRequests.get(url);
-  if (!failedRequest) return false;
-  
-  const now = Date.now();
-  if (now - failedRequest.timestamp > FAILED_REQUEST_EXPIRY) {
-    API_CACHE.failedRequests.delete(url);
-    return false;
+// Errors that end a fetch instead of being retried or skipped over
+const isFatalFetchError = (error: unknown): boolean =>
+  isAbortError(error) || isQuotaExhaustedError(error) || isFetchError(error, 'plan-limit');
+
+// Resolve an account, turning a missing one into a user-not-found error
+const lookupUser = async (username: string, signal?: AbortSignal): Promise<TweetSourceUser> => {
+  let user: TweetSourceUser | null = null;
+  try {
+    user = await tweetSource.getUser(username, signal);
+  } catch (error) {
+    // Some providers answer unknown usernames with a 404 instead of an empty result
+    if (!isFetchError(error, 'api') || error.status !== 404) throw error;
   }
   
-  if (failedRequest.retryAfter && now > failedRequest.retryAfter) {
-    API_CACHE.failedRequests.delete(url);
-    return false;
+  if (!user?.id) {
+    throw createFetchError('user-not-found', `@${username} doesn't exist.`, { username });
   }
-  
-  return true;
+  return user;
 };
 
-const recordFailedRequest = (url: string, errorCode: number, retryAfter?: number) => {
-  API_CACHE.failedRequests.set(url, {
-    timestamp: Date.now(),
-    errorCode,
-    retryAfter: retryAfter ? Date.now() + retryAfter : undefined
-  });
-  
-  // Clean up old failed requests
-  for (const [key, value] of API_CACHE.failedRequests.entries()) {
-    if (Date.now() - value.timestamp > FAILED_REQUEST_EXPIRY) {
-      API_CACHE.failedRequests.delete(key);
-    }
-  }
+const createProtectedAccountError = (username: string) =>
+  createFetchError('protected-account', `@${username}'s tweets are protected.`, { username });
+
+// Conversation mode fetches different tweets, so it is cached separately
+const conversationSuffix = (conversationDepth = 0) => conversationDepth > 0 ? `:conversation-${conversationDepth}` : '';
+const userTweetsCacheKey = (username: string, conversationDepth?: number) =>
+  `${tweetSource.name}:userTweets:${username.toLowerCase()}${conversationSuffix(conversationDepth)}`;
+const tweetDetailsCacheKey = (tweetId: string) => `${tweetSource.name}:tweetDetails:${tweetId}`;
+const crawlStateCacheKey = (username: string, conversationDepth?: number) =>
+  `${tweetSource.name}:crawlState:${username.toLowerCase()}${conversationSuffix(conversationDepth)}`;
+
+// Where the last fetch for an account stopped, so "Fetch More" can carry on
+// from there instead of downloading the same pages again
+export interface CrawlState {
+  user: TweetSourceUser;
+  timelineCursor: string | null;        // null once the timeline is exhausted
+  replyCursors: Record<string, string>; // Conversations whose crawl stopped early, by tweet id
+  crawledConversations: string[];       // Conversations crawled to the end
+  conversationDepth?: number;           // Conversation mode (see FetchUserTweetsOptions)
+}
+
+const loadCrawlState = async (username: string, conversationDepth?: number): Promise<CrawlState | null> => {
+  const cached = await cacheGet<CrawlState>(crawlStateCacheKey(username, conversationDepth));
+  return cached ? cached.value : null;
 };
 
-// API request function with retry logic
-const makeApiRequest = async (url: string, retryCount = 0): Promise<any> => {
-  if (hasRecentlyFailed(url)) {
-    throw new Error(`Skipping recently failed request to: ${url}`);
-  }
-  
-  const executeRequest = async (): Promise<any> => {
-        await rateLimit();
-        
-    return new Promise((resolve, reject) => {
-        const xhr = new XMLHttpRequest();
-        xhr.withCredentials = true;
-        
-        xhr.addEventListener('readystatechange', function() {
-          if (this.readyState === this.DONE) {
-            if (this.status >= 200 && this.status < 300) {
-              try {
-              resolve(JSON.parse(this.responseText));
-              } catch (error) {
-                reject(new Error(`Failed to parse response: ${error}`));
-              }
-            } else if (this.status === 429 && retryCount < MAX_RETRIES) {
-              const delay = RETRY_DELAY * Math.pow(2, retryCount);
-              console.warn(`Rate limited (429). Retrying in ${delay}ms... (Attempt ${retryCount + 1}/${MAX_RETRIES})`);
-              
-              setTimeout(() => {
-                makeApiRequest(url, retryCount + 1)
-                  .then(resolve)
-                  .catch(reject);
-              }, delay);
-            } else {
-              if (this.status === 429) {
-              recordFailedRequest(url, this.status, 60000);
-              } else {
-                recordFailedRequest(url, this.status);
-              }
-              reject(new Error(`API error: ${this.status}`));
-            }
-          }
-        });
-        
-        xhr.open('GET', url);
-        xhr.setRequestHeader('x-rapidapi-key', RAPID_API_KEY);
-        xhr.setRequestHeader('x-rapidapi-host', RAPID_API_HOST);
-        xhr.send(null);
-    });
-  };
-  
-  return retryCount > 0 ? executeRequest() : queueRequest(executeRequest);
+const saveCrawlState = async (username: string, state: CrawlState): Promise<void> => {
+  await cacheSet(crawlStateCacheKey(username, state.conversationDepth), state, CACHE_TTL.crawlState);
 };
 
-// Improved thread detection
-const detectTruncatedText = (text: string): boolean => {
-  if (!text || text.trim().length === 0) return false;
-  
-  // Obvious truncation indicators
-  if (text.endsWith('…') || text.endsWith('...')) return true;
-  if (text.includes('… https://') || text.includes('... https://')) return true;
-  
-  // Check for abrupt endings
-  const lastWords = text.trim().split(/\s+/).slice(-2);
-  const commonTruncationEnders = ['the', 'a', 'an', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'about', 'like', 'of', 'all'];
-  if (lastWords.length > 0 && commonTruncationEnders.includes(lastWords[lastWords.length - 1].toLowerCase())) {
-    return true;
-  }
-  
-  // Check for non-Latin scripts
-  const hasNonLatinScript = /[\u0900-\u097F\u0600-\u06FF\u0590-\u05FF\u0E00-\u0E7F\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF]/.test(text);
-  const thresholdLength = hasNonLatinScript ? 180 : 240;
-  
-  if (text.length >= thresholdLength && !/[.!?"]$/.test(text.trim())) {
-      return true;
+const isByAuthor = (tweet: Tweet, username: string): boolean =>
+  tweet.author.username.toLowerCase() === username.toLowerCase();
+
+// The author's own tweets, minus replies that open by mentioning someone
+// else unless `includeMentions` (conversation mode)
+const isOwnTweet = (tweet: Tweet, username: string, includeMentions = false): boolean => {
+  if (!isByAuthor(tweet, username)) return false;
+  if (includeMentions) return true;
+
+  const tweetText = tweet.full_text || tweet.text || '';
+  if (tweetText.match(/^@[a-zA-Z0-9_]+/) && !tweetText.startsWith(`@${username}`)) {
+    return false;
   }
-  
-  return false;
+  return true;
 };
 
-// Enhanced tweet processing
-const processTweet = (tweet: any): Tweet => {
-    const textContent = tweet.extended_text || tweet.extended_tweet?.full_text || tweet.full_text || tweet.text || '';
-    const isLikelyTruncated = detectTruncatedText(textContent);
-    
-    // Get media URLs efficiently
-    const mediaUrls = [
-      ...(tweet.media_urls || []),
-      ...(tweet.extended_entities?.media?.map((m: any) => m.media_url_https || m.video_info?.variants?.[0]?.url) || []),
-      ...(tweet.entities?.media?.map((m: any) => m.media_url_https || m.video_info?.variants?.[0]?.url) || [])
-    ].filter(Boolean);
-    
-    // Process media items at once
-    const processedMedia = mediaUrls.map((url: string, i: number) => ({
-      media_key: `media-${tweet.tweet_id}-${i}`,
-      type: url.includes('.mp4') || url.includes('/video/') ? 'video' as const : 
-            url.includes('.gif') ? 'animated_gif' as const : 'photo' as const,
-      url: url,
-      preview_image_url: tweet.extended_entities?.media?.[0]?.media_url_https || url,
-    }));
+interface ReplyCrawlOptions {
+  cursor?: string; // Resume a crawl that stopped at this page
+  onPage?: (page: number) => void;
+  onRetry?: (attempt: number, maxAttempts: number, delayMs: number) => void;
+  // Also keep other people's replies, up to this many levels below the author's tweets
+  conversationDepth?: number;
+}
 
-    // Clean text efficiently
-    const cleanedText = textContent
-      .replace(/\s*https:\/\/t\.co\/\w+$/g, '')
-      .replace(/(\s*[…\.]{3,})$/g, '')
-      .replace(/\n{3,}/g, '\n\n');
-    
-    // Better thread and conversation detection
-    const conversation_id = tweet.conversation_id || tweet.in_reply_to_status_id || tweet.tweet_id;
-    const thread_id = tweet.thread_id || conversation_id;
-    const in_reply_to_tweet_id = tweet.in_reply_to_tweet_id || tweet.in_reply_to_status_id;
-    
-    // Handle self-thread detection
-    const isSelfThread = tweet.in_reply_to_user_id && 
-                       tweet.user?.user_id && 
-                       tweet.in_reply_to_user_id === tweet.user.user_id;
-    
-    // Only log important conversation information
-    if (in_reply_to_tweet_id && (conversation_id !== tweet.tweet_id) && isSelfThread) {
-      console.log(`Tweet ${tweet.tweet_id} is part of self-thread with conversation ID ${conversation_id}`);
-    }
-      
-    return {
-      id: tweet.tweet_id,
-      text: tweet.text || '',
-      full_text: cleanedText,
-      created_at: tweet.creation_date,
-      author: {
-        id: tweet.user?.user_id,
-        name: tweet.user?.name,
-        username: tweet.user?.username,
-        profile_image_url: tweet.user?.profile_pic_url
-      },
-      reply_count: tweet.reply_count || 0,
-      retweet_count: tweet.retweet_count || 0,
-      favorite_count: tweet.favorite_count || 0,
-      quote_count: tweet.quote_count || 0,
-      media: processedMedia,
-      conversation_id,
-      in_reply_to_user_id: tweet.in_reply_to_user_id,
-      in_reply_to_tweet_id,
-      is_long: textContent.length > 280 || isLikelyTruncated,
-      thread_id,
-      is_self_thread: isSelfThread,
-    };
-};
+interface ReplyCrawlResult {
+  replies: Tweet[];
+  cursor: string | null; // Next page, when the crawl stopped before the end
+  complete: boolean;
+}
 
 // Fetch all replies for a tweet to build complete threads
-const fetchAllReplies = async (tweetId: string, username: string): Promise<Tweet[]> => {
+const fetchAllReplies = async (
+  tweetId: string,
+  username: string,
+  signal?: AbortSignal,
+  options?: ReplyCrawlOptions
+): Promise<ReplyCrawlResult> => {
   const allReplies: Tweet[] = [];
-  let continuationToken: string | null = null;
+  let continuationToken: string | null = options?.cursor || null;
+  let lastPageFailed = false;
   let attempts = 0;
   const REPLY_MAX_ATTEMPTS = 3; // Renamed to avoid variable redeclaration
   const REPLY_MAX_PAGES = TwitterConfig.replyMaxPages; // Use configurable value
   const uniqueReplyIds = new Set<string>();
   let pageCount = 0;
-  
-  console.log(`Starting to fetch replies for tweet ${tweetId} by user ${username}`);
+  const conversationDepth = options?.conversationDepth || 0;
 
   do {
     try {
       // Only make the API call if we haven't exceeded page limits
       if (pageCount >= REPLY_MAX_PAGES) {
-        console.log(`Reached maximum page limit (${REPLY_MAX_PAGES}) for tweet ${tweetId}, stopping`);
         break;
       }
 
-      const url = continuationToken 
-        ? `https://twitter154.p.rapidapi.com/tweet/replies/continuation?tweet_id=${tweetId}&continuation_token=${encodeURIComponent(continuationToken)}`
-        : `https://twitter154.p.rapidapi.com/tweet/replies?tweet_id=${tweetId}`;
-
-      console.log(`Fetching replies for tweet ${tweetId}, page ${pageCount + 1}`);
-      const response = await makeApiRequest(url);
+      options?.onPage?.(pageCount + 1);
+      const response = await tweetSource.getReplies(tweetId, continuationToken || undefined, signal);
       
-      if (response?.replies?.length) {
-        // Process replies once and filter efficiently
-        const filteredReplies = response.replies
-          .map(processTweet)
+      if (response.tweets.length) {
+        // Filter replies efficiently
+        const filteredReplies = response.tweets
           .filter((t: Tweet) => {
-            // Only check for username match once and store result
-            const isAuthor = t.author.username.toLowerCase() === username.toLowerCase();
-            if (!isAuthor) return false;
-            
             // Skip if already seen
             if (uniqueReplyIds.has(t.id)) return false;
             
-            // Skip replies that mention other users (exclude tweets that start with @)
-            const tweetText = t.full_text || t.text || '';
-            if (tweetText.match(/^@[a-zA-Z0-9_]+/) && !tweetText.startsWith(`@${username}`)) {
-              console.log(`Skipping reply ${t.id} because it mentions another user: "${tweetText.substring(0, 30)}..."`);
-              return false;
-            }
+            // Conversation mode keeps everyone; depth is checked once the crawl is done
+            if (conversationDepth === 0 && !isOwnTweet(t, username)) return false;
             
             // Include in results and mark as processed
             uniqueReplyIds.add(t.id);
@@ -322,27 +226,23 @@ const fetchAllReplies = async (tweetId: string, username: string): Promise<Tweet
         // Only add new unique replies
         if (filteredReplies.length > 0) {
           allReplies.push(...filteredReplies);
-          console.log(`Found ${filteredReplies.length} new replies for tweet ${tweetId} (page ${pageCount + 1})`);
           
           // If we found replies on this page, always try to get the next page
           // This ensures we get complete threads
-          if (response?.continuation_token) {
-            continuationToken = response.continuation_token;
+          if (response.cursor) {
+            continuationToken = response.cursor;
           }
         } else {
-          console.log(`No new author replies found on page ${pageCount + 1} for tweet ${tweetId}`);
-          
           // If we didn't find author replies on this page, only continue if there are
           // a significant number of total replies (might be paginated)
-          if (response.replies.length >= 10 && response?.continuation_token) {
-            continuationToken = response.continuation_token;
+          if (response.tweets.length >= 10 && response.cursor) {
+            continuationToken = response.cursor;
           } else {
             // Otherwise, no point continuing pagination
             continuationToken = null;
           }
         }
       } else {
-        console.log(`No replies found for tweet ${tweetId} (page ${pageCount + 1})`);
         continuationToken = null;
       }
 
@@ -351,28 +251,39 @@ const fetchAllReplies = async (tweetId: string, username: string): Promise<Tweet
       
       // Reset attempt counter after successful response
       attempts = 0;
+      lastPageFailed = false;
       
       // Delay between pages is still needed but can be shorter
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await delay(1000, signal);
   } catch (error) {
+      // Cancelled or out of budget: stop crawling instead of counting it as a failed attempt
+      if (isFatalFetchError(error)) throw error;
+      
       console.error(`Error fetching replies for tweet ${tweetId} (attempt ${attempts+1}):`, error);
       attempts++;
-      
-      // Add a longer delay on error
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      lastPageFailed = true;
       
       // Break immediately if we hit max attempts
       if (attempts >= REPLY_MAX_ATTEMPTS) {
         console.log(`Reached maximum attempts (${REPLY_MAX_ATTEMPTS}) for tweets ${tweetId}, moving on`);
         break;
       }
+      
+      // Add a longer delay on error
+      options?.onRetry?.(attempts, REPLY_MAX_ATTEMPTS, 2000);
+      await delay(2000, signal);
     }
   } while (continuationToken && attempts < REPLY_MAX_ATTEMPTS && pageCount < REPLY_MAX_PAGES);
 
+  // Other people's replies only count as deep as they hang below the author
+  const replies = conversationDepth > 0
+    ? limitReplyDepth(tweetId, allReplies, tweet => isByAuthor(tweet, username), conversationDepth)
+    : allReplies;
+
   // Additional processing for self-threads
-  if (allReplies.length > 1) {
+  if (replies.length > 1) {
     // Sort replies by creation time to ensure thread is in order
-    allReplies.sort((a, b) => {
+    replies.sort((a, b) => {
       try {
         return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
       } catch (err) {
@@ -382,455 +293,980 @@ const fetchAllReplies = async (tweetId: string, username: string): Promise<Tweet
     });
     
     // Set thread position for each tweet
-    allReplies.forEach((tweet, index) => {
+    replies.forEach((tweet, index) => {
       tweet.thread_position = index;
       tweet.thread_index = index;
     });
   }
 
-  console.log(`Total replies fetched for tweet ${tweetId}: ${allReplies.length} across ${pageCount} pages`);
-  return allReplies;
+  return {
+    replies,
+    cursor: continuationToken,
+    complete: !continuationToken && !lastPageFailed
+  };
 };
 
-// Main function to fetch user tweets with complete threads
-export const fetchUserTweets = async (username: string, options?: { 
-  initialFetch?: number, 
-  maxTweets?: number 
-}): Promise<Tweet[]> => {
-  try {
-    // Apply user-provided options if available
-    const initialFetchLimit = options?.initialFetch || TwitterConfig.fetchLimit;
-    const maxTweets = options?.maxTweets || TwitterConfig.maxTweets;
-    
-    const cacheKey = username.toLowerCase();
-    if (API_CACHE.userTweets.has(cacheKey)) {
-      console.log(`Using cached tweets for user ${username}`);
-      return API_CACHE.userTweets.get(cacheKey) || [];
+export type FetchPhase = 'user' | 'initial' | 'replies' | 'continuation' | 'gaps' | 'done';
+
+export interface FetchProgressEvent {
+  type: 'progress';
+  phase: FetchPhase;
+  current?: number;  // 1-based step within the phase (reply crawl, continuation or gap lookup)
+  total?: number;    // Planned steps for the phase
+  tweetId?: string;  // Tweet whose replies are being crawled
+  page?: number;     // Reply page within that crawl
+}
+
+// The daily API budget ran out; the stream ends early with what it has
+export interface FetchQuotaEvent {
+  type: 'quota';
+  used: number;
+  budget: number;
+}
+
+// Summary emitted at the end of a sync
+export interface FetchSyncEvent {
+  type: 'sync';
+  newTweets: number;
+  updatedThreads: number;
+}
+
+export interface FetchRetryEvent {
+  type: 'retry';
+  reason: 'rate-limit' | 'error';
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  tweetId?: string;
+}
+
+// Emitted by streamUserTweets. Batches only contain tweets not seen in an
+// earlier batch of the same stream; `total` is the running count.
+export type TweetStreamEvent =
+  | { type: 'batch'; tweets: Tweet[]; total: number; fromCache?: boolean }
+  | FetchProgressEvent
+  | FetchRetryEvent
+  | FetchQuotaEvent
+  | FetchSyncEvent;
+
+// Turn a producer that pushes events into an async iterator. Events are
+// buffered until the consumer pulls them; a rejected producer is rethrown
+// once the buffer has drained. The producer's signal aborts when `signal`
+// does, or when the consumer stops reading before the producer is done.
+async function* eventStream<T>(
+  run: (emit: (event: T) => void, signal: AbortSignal) => Promise<void>,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  const queue: T[] = [];
+  let notify = () => {};
+  let finished = false;
+  let failure: unknown = null;
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const emit = (event: T) => {
+    queue.push(event);
+    notify();
+  };
+
+  run(emit, controller.signal).then(
+    () => {
+      finished = true;
+      notify();
+    },
+    error => {
+      failure = error || new Error('Tweet stream failed');
+      finished = true;
+      notify();
     }
-    
-    console.log(`Fetching ${initialFetchLimit} tweets for user ${username}`);
-    
-    // Get user ID first
-    const userData = await makeApiRequest(`https://twitter154.p.rapidapi.com/user/details?username=${username}`);
-    const userId = userData.user_id;
-    if (!userId) throw new Error(`Could not find user ID for @${username}`);
+  );
 
-    // Initial fetch - use user-specified limit
-    const initialData = await makeApiRequest(`https://twitter154.p.rapidapi.com/user/tweets?username=${username}&limit=${initialFetchLimit}&user_id=${userId}&include_replies=false&include_pinned=false&includeFulltext=true`);
-    
-    // Process and filter tweets by author
-    let allTweets = processTweets(initialData)
-      .filter(tweet => {
-        // Check if it's by the author
-        const isAuthor = tweet.author.username.toLowerCase() === username.toLowerCase();
-        if (!isAuthor) return false;
-        
-        // Skip tweets that mention other users (exclude tweets that start with @)
-        const tweetText = tweet.full_text || tweet.text || '';
-        if (tweetText.match(/^@[a-zA-Z0-9_]+/) && !tweetText.startsWith(`@${username}`)) {
-          console.log(`Skipping tweet ${tweet.id} because it mentions another user: "${tweetText.substring(0, 30)}..."`);
-          return false;
-        }
-        
-        return true;
+  try {
+    while (true) {
+      if (queue.length > 0) {
+        yield queue.shift();
+        continue;
+      }
+      if (finished) break;
+      await new Promise<void>(resolve => {
+        notify = resolve;
       });
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    // The consumer returned or threw early: stop queuing requests for nobody
+    if (!finished) controller.abort();
+  }
+
+  if (failure) throw failure;
+}
+
+// Crawl (or resume crawling) the author's replies under one tweet and record
+// in `state` whether the conversation is finished or where it stopped
+const crawlConversation = async (
+  tweetId: string,
+  username: string,
+  state: CrawlState,
+  progress: FetchProgressEvent,
+  emit: (event: TweetStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<Tweet[]> => {
+  const result = await fetchAllReplies(tweetId, username, signal, {
+    cursor: state.replyCursors[tweetId],
+    conversationDepth: state.conversationDepth,
+    onPage: page => emit({ ...progress, tweetId, page }),
+    onRetry: (attempt, maxAttempts, delayMs) =>
+      emit({ type: 'retry', reason: 'error', attempt, maxAttempts, delayMs, tweetId })
+  });
+
+  delete state.replyCursors[tweetId];
+  if (result.complete) {
+    if (!state.crawledConversations.includes(tweetId)) {
+      state.crawledConversations.push(tweetId);
+    }
+  } else if (result.cursor) {
+    state.replyCursors[tweetId] = result.cursor;
+  }
+
+  return result.replies;
+};
+
+// Look up the tweets that thread tweets reply to when the author's own
+// parent was never loaded (it fell outside the pages fetched, or the reply
+// crawl stopped early), walking further up as recovered tweets turn out to
+// have missing parents too. Makes at most TwitterConfig.gapRepairBudget
+// lookups; parents that are deleted or by someone else are skipped. Adds
+// recovered ids to `knownIds` and returns the recovered tweets.
+const repairThreadGaps = async (
+  username: string,
+  tweets: Tweet[],
+  knownIds: Set<string>,
+  emit: (event: TweetStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<Tweet[]> => {
+  const budget = TwitterConfig.gapRepairBudget;
+  // Only the account's own threads are repaired; other people's self-replies
+  // (conversation mode) aren't worth the calls
+  const ownTweets = tweets.filter(tweet => isByAuthor(tweet, username));
+  const queue = findMissingParents(ownTweets, knownIds);
+  if (budget === 0 || queue.length === 0) return [];
+
+  const recovered: Tweet[] = [];
+  const tried = new Set<string>();
+  let lookups = 0;
 
-    console.log(`Found ${allTweets.length} tweets in initial fetch for ${username}`);
+  while (queue.length > 0 && lookups < budget) {
+    const tweetId = queue.shift()!;
+    if (knownIds.has(tweetId) || tried.has(tweetId)) continue;
+    tried.add(tweetId);
 
-    // Create a Set to track unique tweet IDs
-    const uniqueTweetIds = new Set<string>();
-    allTweets.forEach(tweet => uniqueTweetIds.add(tweet.id));
+    lookups++;
+    emit({ type: 'progress', phase: 'gaps', current: lookups, total: budget, tweetId });
 
-    // PRIORITY: Identify and fetch thread replies first
-    // Choose threads with highest reply counts to save API calls
-    const threadsToProcess = [...allTweets]
-      .filter(tweet => tweet.reply_count && tweet.reply_count > 0) 
-      .sort((a, b) => (b.reply_count || 0) - (a.reply_count || 0))
-      .slice(0, TwitterConfig.threadsToProcess); // Use configurable value
+    let parent: Tweet | null = null;
+    try {
+      // Repairs happen behind the user's back, so they yield to their requests
+      parent = await loadTweetDetails(tweetId, signal, 'background');
+    } catch (error) {
+      if (isFatalFetchError(error)) throw error;
+      console.error(`Error looking up missing thread tweet ${tweetId}:`, error);
+      continue;
+    }
+
+    const child = ownTweets.find(tweet => tweet.in_reply_to_tweet_id === tweetId) ||
+      recovered.find(tweet => tweet.in_reply_to_tweet_id === tweetId);
+    // Deleted, or not part of the author's thread
+    if (!parent || parent.author?.username?.toLowerCase() !== child?.author?.username?.toLowerCase()) continue;
+
+    knownIds.add(parent.id);
+    recovered.push(parent);
+    queue.push(...findMissingParents([parent], knownIds));
+  }
+
+  return recovered;
+};
 
-    console.log(`Selected ${threadsToProcess.length} threads to fetch replies for`);
+// Fetch a user's tweets with complete threads straight from the source,
+// emitting each batch as soon as it has been filtered. Returns where the
+// crawl stopped.
+const loadTweetsFromSource = async (
+  username: string,
+  initialFetchLimit: number,
+  maxTweets: number,
+  conversationDepth: number,
+  emit: (event: TweetStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<CrawlState> => {
+  // Get user ID first
+  emit({ type: 'progress', phase: 'user' });
+  const user = await lookupUser(username, signal);
+
+  const state: CrawlState = {
+    user,
+    timelineCursor: null,
+    replyCursors: {},
+    crawledConversations: [],
+    conversationDepth
+  };
+
+  // Initial fetch - use user-specified limit
+  emit({ type: 'progress', phase: 'initial' });
+  let initialData: TweetPage;
+  try {
+    initialData = await tweetSource.getUserTweets(user, { limit: initialFetchLimit }, signal);
+  } catch (error) {
+    // Timelines of protected accounts are refused rather than empty on some providers
+    if (user.protected && isFetchError(error, 'api') && (error.status === 401 || error.status === 403)) {
+      throw createProtectedAccountError(username);
+    }
+    throw error;
+  }
+  if (user.protected && initialData.tweets.length === 0) {
+    throw createProtectedAccountError(username);
+  }
+  
+  // Filter tweets by author; conversation mode keeps the author's replies to other people
+  const allTweets = initialData.tweets.filter(tweet => isOwnTweet(tweet, username, conversationDepth > 0));
+
+  emit({ type: 'batch', tweets: [...allTweets], total: allTweets.length });
+
+  // Create a Set to track unique tweet IDs
+  const uniqueTweetIds = new Set<string>();
+  allTweets.forEach(tweet => uniqueTweetIds.add(tweet.id));
+
+  // PRIORITY: Identify and fetch thread replies first
+  // Choose threads with highest reply counts to save API calls
+  const threadsToProcess = [...allTweets]
+    .filter(tweet => tweet.reply_count && tweet.reply_count > 0) 
+    .sort((a, b) => (b.reply_count || 0) - (a.reply_count || 0))
+    .slice(0, TwitterConfig.threadsToProcess); // Use configurable value
+
+  // Process threads first to build complete conversations
+  for (const [index, tweet] of threadsToProcess.entries()) {
+    const replyProgress: FetchProgressEvent = {
+      type: 'progress',
+      phase: 'replies',
+      current: index + 1,
+      total: threadsToProcess.length,
+      tweetId: tweet.id
+    };
+    emit(replyProgress);
     
-    // Process threads first to build complete conversations
-    for (const tweet of threadsToProcess) {
-      try {
-        console.log(`Fetching replies for tweet ${tweet.id} (has ${tweet.reply_count} replies)`);
-        const replies = await fetchAllReplies(tweet.id, username);
-        
-        // Filter out any replies we already have
-        const newReplies = replies.filter(reply => {
-          if (uniqueTweetIds.has(reply.id)) return false;
-          uniqueTweetIds.add(reply.id);
-          return true;
-        });
-        
-        if (newReplies.length > 0) {
-          console.log(`Added ${newReplies.length} new replies for tweet ${tweet.id}`);
-          allTweets.push(...newReplies);
-        }
-        
-        // Add delay between processing tweets
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } catch (error) {
-        console.error(`Error fetching replies for tweet ${tweet.id}:`, error);
-        // Add longer delay after error
-        await new Promise(resolve => setTimeout(resolve, 2500));
+    try {
+      const replies = await crawlConversation(tweet.id, username, state, replyProgress, emit, signal);
+      
+      // Filter out any replies we already have
+      const newReplies = replies.filter(reply => {
+        if (uniqueTweetIds.has(reply.id)) return false;
+        uniqueTweetIds.add(reply.id);
+        return true;
+      });
+      
+      if (newReplies.length > 0) {
+        allTweets.push(...newReplies);
+        emit({ type: 'batch', tweets: newReplies, total: allTweets.length });
       }
+      
+      // Add delay between processing tweets
+      await delay(1000, signal);
+    } catch (error) {
+      if (isFatalFetchError(error)) throw error;
+      
+      console.error(`Error fetching replies for tweet ${tweet.id}:`, error);
+      // Add longer delay after error
+      await delay(2500, signal);
     }
+  }
 
-    console.log(`After fetching replies, total tweet count: ${allTweets.length}`);
-
-    // Continue fetching more tweets using continuation token if we haven't reached maxTweets yet
-    let continuationToken = initialData.continuation_token;
-    let continuationCount = 0;
+  // Continue fetching more tweets using continuation token if we haven't reached maxTweets yet
+  let continuationToken = initialData.cursor;
+  let continuationCount = 0;
+  
+  while (continuationToken && allTweets.length < maxTweets && continuationCount < TwitterConfig.maxContinuations) {
+    const continuationProgress: FetchProgressEvent = {
+      type: 'progress',
+      phase: 'continuation',
+      current: continuationCount + 1,
+      total: TwitterConfig.maxContinuations
+    };
+    emit(continuationProgress);
     
-    while (continuationToken && allTweets.length < maxTweets && continuationCount < TwitterConfig.maxContinuations) {
-      try {
-        console.log(`Fetching continuation ${continuationCount + 1} for ${username}`);
-        const continuationData = await makeApiRequest(`https://twitter154.p.rapidapi.com/user/tweets/continuation?username=${username}&continuation_token=${continuationToken}&user_id=${userId}`);
-        
-        const additionalTweets = processTweets(continuationData)
-          .filter(tweet => {
-            // Check if it's by the author and unique
-            const isAuthor = tweet.author.username.toLowerCase() === username.toLowerCase();
-            const isUnique = !uniqueTweetIds.has(tweet.id);
-            
-            if (!isAuthor || !isUnique) return false;
-            
-            // Skip tweets that mention other users (exclude tweets that start with @)
-            const tweetText = tweet.full_text || tweet.text || '';
-            if (tweetText.match(/^@[a-zA-Z0-9_]+/) && !tweetText.startsWith(`@${username}`)) {
-              console.log(`Skipping tweet ${tweet.id} because it mentions another user: "${tweetText.substring(0, 30)}..."`);
-              return false;
-            }
-            
-            uniqueTweetIds.add(tweet.id);
-            return true;
-          });
-        
-        console.log(`Found ${additionalTweets.length} new tweets in continuation ${continuationCount + 1}`);
+    try {
+      const continuationData = await tweetSource.getUserTweets(user, {
+        limit: initialFetchLimit,
+        cursor: continuationToken
+      }, signal);
+      
+      const additionalTweets = continuationData.tweets
+        .filter(tweet => {
+          // Check if it's by the author and unique
+          if (uniqueTweetIds.has(tweet.id) || !isOwnTweet(tweet, username, conversationDepth > 0)) return false;
+          
+          uniqueTweetIds.add(tweet.id);
+          return true;
+        });
+      
+      if (additionalTweets.length > 0) {
+        allTweets.push(...additionalTweets);
+        emit({ type: 'batch', tweets: additionalTweets, total: allTweets.length });
         
-        if (additionalTweets.length > 0) {
-          allTweets.push(...additionalTweets);
+        // Check if any of these new tweets are part of threads and need replies
+        const newThreadsToProcess = additionalTweets
+          .filter(tweet => tweet.reply_count && tweet.reply_count > 2)
+          .sort((a, b) => (b.reply_count || 0) - (a.reply_count || 0))
+          .slice(0, 5); // Process up to 5 more threads
           
-          // Check if any of these new tweets are part of threads and need replies
-          const newThreadsToProcess = additionalTweets
-            .filter(tweet => tweet.reply_count && tweet.reply_count > 2)
-            .sort((a, b) => (b.reply_count || 0) - (a.reply_count || 0))
-            .slice(0, 5); // Process up to 5 more threads
-            
-          if (newThreadsToProcess.length > 0) {
-            console.log(`Found ${newThreadsToProcess.length} potential new threads in continuation, fetching replies`);
-            
-            for (const tweet of newThreadsToProcess) {
-              try {
-                console.log(`Fetching replies for new tweet ${tweet.id} (has ${tweet.reply_count} replies)`);
-                const replies = await fetchAllReplies(tweet.id, username);
-                
-                // Filter out any replies we already have
-                const newReplies = replies.filter(reply => {
-                  if (uniqueTweetIds.has(reply.id)) return false;
-                  uniqueTweetIds.add(reply.id);
-                  return true;
-                });
-                
-                if (newReplies.length > 0) {
-                  console.log(`Added ${newReplies.length} new replies for tweet ${tweet.id}`);
-                  allTweets.push(...newReplies);
-                }
-                
-                // Add delay between processing tweets
-                await new Promise(resolve => setTimeout(resolve, 1000));
-              } catch (error) {
-                console.error(`Error fetching replies for new tweet ${tweet.id}:`, error);
-                await new Promise(resolve => setTimeout(resolve, 2000));
+        if (newThreadsToProcess.length > 0) {
+          for (const tweet of newThreadsToProcess) {
+            try {
+              const replies = await crawlConversation(tweet.id, username, state, continuationProgress, emit, signal);
+              
+              // Filter out any replies we already have
+              const newReplies = replies.filter(reply => {
+                if (uniqueTweetIds.has(reply.id)) return false;
+                uniqueTweetIds.add(reply.id);
+                return true;
+              });
+              
+              if (newReplies.length > 0) {
+                allTweets.push(...newReplies);
+                emit({ type: 'batch', tweets: newReplies, total: allTweets.length });
               }
+              
+              // Add delay between processing tweets
+              await delay(1000, signal);
+            } catch (error) {
+              if (isFatalFetchError(error)) throw error;
+              
+              console.error(`Error fetching replies for new tweet ${tweet.id}:`, error);
+              await delay(2000, signal);
             }
           }
         }
-        
-        // Update continuation token for next fetch
-        continuationToken = continuationData.continuation_token;
-        continuationCount++;
-        
-        // Add delay between continuations
-        await new Promise(resolve => setTimeout(resolve, 1500));
-      } catch (error) {
-        console.error(`Error fetching continuation ${continuationCount + 1}:`, error);
-        break;
       }
+      
+      // Update continuation token for next fetch
+      continuationToken = continuationData.cursor;
+      continuationCount++;
+      
+      // Add delay between continuations
+      await delay(1500, signal);
+    } catch (error) {
+      if (isFatalFetchError(error)) throw error;
+      
+      console.error(`Error fetching continuation ${continuationCount + 1}:`, error);
+      break;
     }
+  }
 
-    console.log(`Fetched ${allTweets.length} total tweets (${uniqueTweetIds.size} unique)`);
-    
-    // Cache and return results
-    API_CACHE.userTweets.set(cacheKey, allTweets);
-    return allTweets;
-  } catch (error) {
-    console.error('Error fetching tweets:', error);
-    toast({
-      title: 'Error',
-      description: 'Failed to fetch tweets. Please try again.',
-      variant: 'destructive',
-    });
-    return [];
+  // Whatever page we stopped at (limit reached or failed) is where to resume
+  state.timelineCursor = continuationToken || null;
+
+  const recovered = await repairThreadGaps(username, allTweets, uniqueTweetIds, emit, signal);
+  if (recovered.length > 0) {
+    allTweets.push(...recovered);
+    emit({ type: 'batch', tweets: recovered, total: allTweets.length });
   }
+  return state;
 };
 
-// Process tweets from API response
-const processTweets = (response: any): Tweet[] => {
-  if (!response.results || !Array.isArray(response.results)) return [];
-  
-  return response.results.map(processTweet);
-};
+// Pick up where the last crawl for an account stopped: finish reply crawls
+// that hit the page limit, then continue the timeline from the saved cursor
+// until `count` new tweets have been found. Updates `state` as it goes.
+const loadMoreTweetsFromSource = async (
+  username: string,
+  state: CrawlState,
+  count: number,
+  knownIds: Set<string>,
+  emit: (event: TweetStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  let total = 0;
+  const added: Tweet[] = [];
+  const emitNew = (tweets: Tweet[]) => {
+    const fresh = tweets.filter(tweet => {
+      if (knownIds.has(tweet.id)) return false;
+      knownIds.add(tweet.id);
+      return true;
+    });
 
-// Group tweets into threads
-export const groupThreads = (tweets: Tweet[]): (Tweet | Thread)[] => {
-  // Use maps to efficiently track tweets and threads
-  const threadMap = new Map<string, Tweet[]>();
-  const tweetMap = new Map<string, Tweet>();
-  const processedIds = new Set<string>();
-  
-  // First pass: map tweets for quick access
-  tweets.forEach(tweet => tweetMap.set(tweet.id, tweet));
-  
-  console.log(`Organizing ${tweets.length} tweets into threads`);
-  
-  // Pre-process to find explicit self-threads
-  // These are tweets where is_self_thread is true, or where the user replies to themselves
-  const selfThreads: Map<string, Set<string>> = new Map();
-  
-  tweets.forEach(tweet => {
-    // If tweet is marked as self-thread already
-    if (tweet.is_self_thread && tweet.conversation_id) {
-      if (!selfThreads.has(tweet.conversation_id)) {
-        selfThreads.set(tweet.conversation_id, new Set<string>());
-      }
-      selfThreads.get(tweet.conversation_id)!.add(tweet.id);
-      
-      // Add the reply-to tweet ID if it exists
-      if (tweet.in_reply_to_tweet_id && tweetMap.has(tweet.in_reply_to_tweet_id)) {
-        selfThreads.get(tweet.conversation_id)!.add(tweet.in_reply_to_tweet_id);
-      }
+    if (fresh.length > 0) {
+      total += fresh.length;
+      added.push(...fresh);
+      emit({ type: 'batch', tweets: fresh, total });
     }
-    // If tweet is a reply to another tweet by the same author
-    else if (tweet.in_reply_to_tweet_id && tweet.in_reply_to_user_id) {
-      const replyToTweet = tweetMap.get(tweet.in_reply_to_tweet_id);
-      if (replyToTweet && replyToTweet.author.id === tweet.author.id) {
-        const threadId = tweet.conversation_id || tweet.thread_id || tweet.in_reply_to_tweet_id;
-        if (!selfThreads.has(threadId)) {
-          selfThreads.set(threadId, new Set<string>());
+    return fresh;
+  };
+
+  const resumable = Object.keys(state.replyCursors).slice(0, TwitterConfig.threadsToProcess);
+
+  for (const [index, tweetId] of resumable.entries()) {
+    const replyProgress: FetchProgressEvent = {
+      type: 'progress',
+      phase: 'replies',
+      current: index + 1,
+      total: resumable.length,
+      tweetId
+    };
+    emit(replyProgress);
+
+    try {
+      emitNew(await crawlConversation(tweetId, username, state, replyProgress, emit, signal));
+      await delay(1000, signal);
+    } catch (error) {
+      if (isFatalFetchError(error)) throw error;
+
+      console.error(`Error resuming replies for tweet ${tweetId}:`, error);
+      await delay(2500, signal);
+    }
+  }
+
+  let timelineTweets = 0;
+  let continuationCount = 0;
+
+  while (state.timelineCursor && timelineTweets < count && continuationCount < TwitterConfig.maxContinuations) {
+    const continuationProgress: FetchProgressEvent = {
+      type: 'progress',
+      phase: 'continuation',
+      current: continuationCount + 1,
+      total: TwitterConfig.maxContinuations
+    };
+    emit(continuationProgress);
+
+    try {
+      const page = await tweetSource.getUserTweets(state.user, {
+        limit: count,
+        cursor: state.timelineCursor
+      }, signal);
+
+      const additionalTweets = emitNew(page.tweets.filter(tweet => isOwnTweet(tweet, username, !!state.conversationDepth)));
+      timelineTweets += additionalTweets.length;
+
+      // Crawl replies for new threads we have not finished before
+      const newThreadsToProcess = additionalTweets
+        .filter(tweet => tweet.reply_count && tweet.reply_count > 2)
+        .filter(tweet => !state.crawledConversations.includes(tweet.id))
+        .sort((a, b) => (b.reply_count || 0) - (a.reply_count || 0))
+        .slice(0, 5);
+
+      for (const tweet of newThreadsToProcess) {
+        try {
+          emitNew(await crawlConversation(tweet.id, username, state, continuationProgress, emit, signal));
+          await delay(1000, signal);
+        } catch (error) {
+          if (isFatalFetchError(error)) throw error;
+
+          console.error(`Error fetching replies for new tweet ${tweet.id}:`, error);
+          await delay(2000, signal);
         }
-        selfThreads.get(threadId)!.add(tweet.id);
-        selfThreads.get(threadId)!.add(tweet.in_reply_to_tweet_id);
       }
+
+      state.timelineCursor = page.cursor || null;
+      continuationCount++;
+
+      await delay(1500, signal);
+    } catch (error) {
+      if (isFatalFetchError(error)) throw error;
+
+      // Keep the cursor so the next run retries this page
+      console.error(`Error resuming timeline for ${username}:`, error);
+      break;
     }
-  });
-  
-  // Process explicit self-threads first
-  selfThreads.forEach((tweetIds, threadId) => {
-    if (tweetIds.size > 1) {
-      console.log(`Found self-thread with ID ${threadId} containing ${tweetIds.size} tweets`);
-      
-      // Get all tweets in this thread
-      const threadTweets = Array.from(tweetIds)
-        .map(id => tweetMap.get(id))
-        .filter(t => t !== undefined) as Tweet[];
-      
-      // Sort tweets by thread_position if available, otherwise by creation time
-      threadTweets.sort((a, b) => {
-        if (a.thread_position !== undefined && b.thread_position !== undefined) {
-          return a.thread_position - b.thread_position;
+  }
+
+  // Recovered tweets are already in knownIds, so add them directly
+  const recovered = await repairThreadGaps(username, added, knownIds, emit, signal);
+  if (recovered.length > 0) {
+    total += recovered.length;
+    emit({ type: 'batch', tweets: recovered, total });
+  }
+};
+
+const tweetTime = (tweet: Tweet) => new Date(tweet.created_at).getTime();
+
+// A pinned tweet heads the first timeline page whatever its age, so a
+// leading tweet older than the one after it is taken to be pinned
+const isPinnedAt = (tweets: Tweet[], index: number, firstPage: boolean) =>
+  firstPage && index === 0 && tweets.length > 1 && tweetTime(tweets[0]) < tweetTime(tweets[1]);
+
+// Fetch only what is newer than the tweets we already have: page the
+// timeline until it reaches the newest known tweet, then crawl replies for
+// new conversations and for known ones whose reply count went up
+const loadSyncFromSource = async (
+  username: string,
+  known: Map<string, Tweet>,
+  state: CrawlState | null,
+  conversationDepth: number,
+  emit: (event: TweetStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  emit({ type: 'progress', phase: 'user' });
+  const user = state?.user || await lookupUser(username, signal);
+
+  // Reply crawls update the saved state when there is one
+  const crawlState: CrawlState = state || {
+    user,
+    timelineCursor: null,
+    replyCursors: {},
+    crawledConversations: [],
+    conversationDepth
+  };
+  const seenIds = new Set(known.keys());
+  const newTweets: Tweet[] = [];
+  const changedConversations: string[] = [];
+  const updatedThreads = new Set<string>();
+  let cursor: string | undefined;
+  let pageCount = 0;
+  let reachedKnown = false;
+  // Unknown tweets older than this were left out on purpose (e.g. filtered
+  // replies), so only newer ones count as new
+  const newestKnown = Array.from(known.values())
+    .map(tweetTime)
+    .reduce((newest, time) => isNaN(time) ? newest : Math.max(newest, time), -Infinity);
+
+  while (!reachedKnown && pageCount <= TwitterConfig.maxContinuations) {
+    emit(pageCount === 0
+      ? { type: 'progress', phase: 'initial' }
+      : { type: 'progress', phase: 'continuation', current: pageCount, total: TwitterConfig.maxContinuations });
+
+    const page = await tweetSource.getUserTweets(user, { limit: TwitterConfig.fetchLimit, cursor }, signal);
+    const fresh: Tweet[] = [];
+
+    // Pages aren't strictly in order, so the whole page is read before
+    // deciding whether to stop
+    page.tweets.forEach((tweet, index) => {
+      const time = tweetTime(tweet);
+      if (!isPinnedAt(page.tweets, index, pageCount === 0) && (known.has(tweet.id) || time <= newestKnown)) {
+        reachedKnown = true;
+      }
+    });
+
+    for (const tweet of page.tweets.filter(tweet => isOwnTweet(tweet, username, conversationDepth > 0))) {
+      const previous = known.get(tweet.id);
+      if (previous) {
+        if ((tweet.reply_count || 0) > (previous.reply_count || 0)) {
+          changedConversations.push(tweet.id);
         }
-        
-        if (a.thread_index !== undefined && b.thread_index !== undefined) {
-          return a.thread_index - b.thread_index;
+      } else if (!seenIds.has(tweet.id) && !(tweetTime(tweet) <= newestKnown)) {
+        seenIds.add(tweet.id);
+        fresh.push(tweet);
+
+        // A new tweet continuing one of our threads
+        if (tweet.in_reply_to_tweet_id && known.has(tweet.in_reply_to_tweet_id)) {
+          updatedThreads.add(tweet.conversation_id || tweet.in_reply_to_tweet_id);
         }
-        
-        // Try parsing dates
-        try {
-          return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-        } catch (err) {
-          // Use tweet IDs as fallback
-          return Number(BigInt(a.id) - BigInt(b.id));
+      }
+    }
+
+    if (fresh.length > 0) {
+      newTweets.push(...fresh);
+      emit({ type: 'batch', tweets: fresh, total: newTweets.length });
+    }
+
+    cursor = page.cursor || undefined;
+    pageCount++;
+    if (!cursor) break;
+    if (!reachedKnown) await delay(1500, signal);
+  }
+
+  const conversations = [
+    ...newTweets.filter(tweet => tweet.reply_count && tweet.reply_count > 0).map(tweet => tweet.id),
+    ...changedConversations
+  ].slice(0, TwitterConfig.threadsToProcess);
+
+  for (const [index, tweetId] of conversations.entries()) {
+    const replyProgress: FetchProgressEvent = {
+      type: 'progress',
+      phase: 'replies',
+      current: index + 1,
+      total: conversations.length,
+      tweetId
+    };
+    emit(replyProgress);
+
+    try {
+      const replies = (await crawlConversation(tweetId, username, crawlState, replyProgress, emit, signal))
+        .filter(reply => {
+          if (seenIds.has(reply.id)) return false;
+          seenIds.add(reply.id);
+          return true;
+        });
+
+      if (replies.length > 0) {
+        newTweets.push(...replies);
+        emit({ type: 'batch', tweets: replies, total: newTweets.length });
+        if (known.has(tweetId)) {
+          updatedThreads.add(known.get(tweetId).conversation_id || tweetId);
         }
-      });
-      
-      // Only create threads with more than one tweet
-      if (threadTweets.length > 1) {
-        // Set thread positions if not already set
-        threadTweets.forEach((tweet, idx) => {
-          tweet.thread_position = idx;
-          tweet.thread_index = idx;
-          processedIds.add(tweet.id);
+      }
+
+      await delay(1000, signal);
+    } catch (error) {
+      if (isFatalFetchError(error)) throw error;
+
+      console.error(`Error syncing replies for tweet ${tweetId}:`, error);
+      await delay(2500, signal);
+    }
+  }
+
+  const recovered = await repairThreadGaps(username, newTweets, seenIds, emit, signal);
+  if (recovered.length > 0) {
+    newTweets.push(...recovered);
+    emit({ type: 'batch', tweets: recovered, total: newTweets.length });
+  }
+
+  emit({ type: 'sync', newTweets: newTweets.length, updatedThreads: updatedThreads.size });
+};
+
+// Run a loader as a stream of events, reporting rate-limit backoffs of its
+// requests and ending early with a quota event once the budget runs out.
+// Any other failure is rethrown as a FetchError.
+const streamFromSource = (
+  username: string,
+  signal: AbortSignal | undefined,
+  load: (emit: (event: TweetStreamEvent) => void, signal: AbortSignal) => Promise<void>
+): AsyncGenerator<TweetStreamEvent> => {
+  // Request events are matched to this fetch by the stream's own signal
+  return eventStream<TweetStreamEvent>(async (emit, fetchSignal) => {
+    const unsubscribe = subscribeToRequests(event => {
+      if (event.type === 'backoff' && event.signal === fetchSignal) {
+        emit({
+          type: 'retry',
+          reason: 'rate-limit',
+          attempt: event.attempt,
+          maxAttempts: event.maxRetries,
+          delayMs: event.delayMs
         });
-        
-        threadMap.set(threadId, threadTweets);
       }
+    });
+
+    try {
+      await load(emit, fetchSignal);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (!isQuotaExhaustedError(error)) throw toFetchError(error);
+      
+      // Keep the batches already emitted and stop making calls
+      console.warn(`Daily API budget reached while fetching tweets for ${username}`);
+      emit({ type: 'quota', used: getQuotaUsage().total, budget: getDailyBudget() });
+    } finally {
+      unsubscribe();
     }
+  }, signal);
+};
+
+const streamTweetsFromSource = (
+  username: string,
+  initialFetchLimit: number,
+  maxTweets: number,
+  conversationDepth: number,
+  signal?: AbortSignal
+): AsyncGenerator<TweetStreamEvent> => {
+  return streamFromSource(username, signal, async (emit, fetchSignal) => {
+    const state = await loadTweetsFromSource(username, initialFetchLimit, maxTweets, conversationDepth, emit, fetchSignal);
+    // Only reached for complete fetches, which replace the cached timeline
+    await saveCrawlState(username, state);
   });
-  
-  // Process remaining tweets to find additional threads and conversations
-  tweets.forEach(tweet => {
-    if (processedIds.has(tweet.id)) return;
-    
-    const threadId = tweet.conversation_id || tweet.thread_id || tweet.id;
-    
-    // Find potential thread participants that weren't already in self-threads
-    const threadMembers = tweets.filter(t => 
-      !processedIds.has(t.id) && 
-      ((t.conversation_id && t.conversation_id === threadId) || 
-       (t.thread_id && t.thread_id === threadId) ||
-       (t.in_reply_to_tweet_id && tweetMap.has(t.in_reply_to_tweet_id) && 
-        t.author.id === tweet.author.id)) // Only group together tweets by the same author
-    );
-    
-    if (threadMembers.length <= 1) {
-      // This is a standalone tweet
-      processedIds.add(tweet.id);
-      if (!threadMap.has('standalone')) {
-        threadMap.set('standalone', []);
+};
+
+// Drain a stream into a single array of tweets
+const collectTweets = async (stream: AsyncIterable<TweetStreamEvent>): Promise<Tweet[]> => {
+  const tweets: Tweet[] = [];
+  for await (const event of stream) {
+    if (event.type === 'batch') {
+      tweets.push(...event.tweets);
+    }
+  }
+  return tweets;
+};
+
+export interface FetchUserTweetsOptions {
+  initialFetch?: number;
+  maxTweets?: number;
+  // Ignore cached results and replace them with a fresh fetch
+  forceRefresh?: boolean;
+  // Called when stale cached results have been refreshed in the background
+  onRevalidated?: (tweets: Tweet[]) => void;
+  // Conversation mode: also keep other people's replies, up to this many
+  // levels below the author's tweets. 0 (the default) keeps the author's
+  // tweets only. Each depth is cached separately.
+  conversationDepth?: number;
+  // Cancels the fetch, including queued requests and pending delays.
+  // A cancelled fetch rejects with an AbortError (see isAbortError).
+  signal?: AbortSignal;
+}
+
+export interface CacheInfo {
+  storedAt: number;
+  expiresAt: number;
+  stale: boolean;
+}
+
+// Usernames with a background refresh in flight
+const revalidating = new Set<string>();
+
+const revalidateUserTweets = async (
+  username: string,
+  initialFetchLimit: number,
+  maxTweets: number,
+  conversationDepth: number,
+  onRevalidated?: (tweets: Tweet[]) => void
+) => {
+  const cacheKey = userTweetsCacheKey(username, conversationDepth);
+  // Stale data beats spending the last of the budget in the background
+  if (revalidating.has(cacheKey) || isQuotaExhausted()) return;
+  revalidating.add(cacheKey);
+
+  try {
+    const tweets: Tweet[] = [];
+    for await (const event of streamTweetsFromSource(username, initialFetchLimit, maxTweets, conversationDepth)) {
+      if (event.type === 'batch') {
+        tweets.push(...event.tweets);
+      } else if (event.type === 'quota') {
+        // A partial refresh would replace a complete (if stale) timeline
+        console.warn(`Daily API budget reached, keeping stale tweets for ${username}`);
+        return;
       }
-      threadMap.get('standalone')!.push(tweet);
-      return;
     }
     
-    // Try to establish thread order
-    const thread: Tweet[] = [];
-    const replyMap = new Map<string, Tweet[]>();
-    
-    // Build reply relationships
-    threadMembers.forEach(t => {
-      if (t.in_reply_to_tweet_id) {
-        if (!replyMap.has(t.in_reply_to_tweet_id)) {
-          replyMap.set(t.in_reply_to_tweet_id, []);
-        }
-        replyMap.get(t.in_reply_to_tweet_id)!.push(t);
+    await cacheSet(cacheKey, tweets, CACHE_TTL.userTweets);
+    onRevalidated?.(tweets);
+  } catch (error) {
+    console.error(`Error revalidating tweets for ${username}:`, error);
+  } finally {
+    revalidating.delete(cacheKey);
+  }
+};
+
+// Streaming variant of fetchUserTweets: yields tweets batch by batch while
+// replies and continuations are still being fetched. Cached results arrive
+// as a single batch. Failures are thrown to the caller as FetchErrors, and
+// cancellation as an AbortError.
+export async function* streamUserTweets(
+  username: string,
+  options?: FetchUserTweetsOptions
+): AsyncGenerator<TweetStreamEvent> {
+  // Apply user-provided options if available
+  const initialFetchLimit = options?.initialFetch || TwitterConfig.fetchLimit;
+  const maxTweets = options?.maxTweets || TwitterConfig.maxTweets;
+  const conversationDepth = options?.conversationDepth || 0;
+  
+  const cacheKey = userTweetsCacheKey(username, conversationDepth);
+  if (options?.forceRefresh) {
+    await cacheDelete(cacheKey);
+  } else {
+    const cached = await cacheGet<Tweet[]>(cacheKey);
+    if (cached) {
+      if (isFresh(cached)) {
+        console.log(`Using cached tweets for user ${username}`);
+      } else {
+        // Serve stale data right away and refresh it in the background
+        revalidateUserTweets(username, initialFetchLimit, maxTweets, conversationDepth, options?.onRevalidated);
       }
-    });
-    
-    // Find potential root tweet - give preference to tweets that:
-    // 1. Have no in_reply_to
-    // 2. Are not a reply to another thread member
-    // 3. Have the earliest creation date
-    let rootTweet = threadMembers.find(t => 
-      !t.in_reply_to_tweet_id || 
-      !threadMembers.some(other => other.id === t.in_reply_to_tweet_id)
-    );
-    
-    if (!rootTweet) {
-      // No clear root found, use earliest tweet as root
-      threadMembers.sort((a, b) => {
-        try {
-          return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-        } catch (err) {
-          // Use tweet IDs as fallback
-          return Number(BigInt(a.id) - BigInt(b.id));
-        }
-      });
       
-      rootTweet = threadMembers[0];
+      yield { type: 'batch', tweets: cached.value, total: cached.value.length, fromCache: true };
+      yield { type: 'progress', phase: 'done' };
+      return;
     }
-    
-    if (rootTweet) {
-      // Build thread from root
-      thread.push(rootTweet);
-      processedIds.add(rootTweet.id);
-      
-      // Build thread sequence 
-      let currentId = rootTweet.id;
-      
-      // Recursively find all replies to build the thread
-      const findReplies = (tweetId: string, depth: number = 0): Tweet[] => {
-        if (depth > 10) return []; // Prevent infinite recursion
-        if (!replyMap.has(tweetId)) return [];
-        
-        const result: Tweet[] = [];
-        const replies = replyMap.get(tweetId)!.sort((a, b) => {
-          try {
-            return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-          } catch (err) {
-            return Number(BigInt(a.id) - BigInt(b.id));
-          }
-        });
-        
-        for (const reply of replies) {
-          if (!processedIds.has(reply.id)) {
-            result.push(reply);
-            processedIds.add(reply.id);
-            // Find replies to this reply
-            result.push(...findReplies(reply.id, depth + 1));
-          }
-        }
-        
-        return result;
-      };
-      
-      // Add all replies in the correct order
-      thread.push(...findReplies(rootTweet.id));
-    } else {
-      // No root found, sort by creation time
-      const sorted = [...threadMembers].sort((a, b) => {
-        try {
-          return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-        } catch (err) {
-          return Number(BigInt(a.id) - BigInt(b.id));
-        }
-      });
-      
-      thread.push(...sorted);
-      sorted.forEach(t => processedIds.add(t.id));
+  }
+  
+  const allTweets: Tweet[] = [];
+  let complete = true;
+  for await (const event of streamTweetsFromSource(username, initialFetchLimit, maxTweets, conversationDepth, options?.signal)) {
+    if (event.type === 'batch') {
+      allTweets.push(...event.tweets);
+    } else if (event.type === 'quota') {
+      complete = false;
     }
-    
-    // Only create a thread if we have multiple tweets
-    if (thread.length > 1) {
-      // Add thread position/index for each tweet
-      thread.forEach((t, i) => {
-        t.thread_position = i;
-        t.thread_index = i;
-      });
-      
-      threadMap.set(threadId, thread);
-    } else if (thread.length === 1) {
-      // Move to standalone
-      if (!threadMap.has('standalone')) {
-        threadMap.set('standalone', []);
-      }
-      threadMap.get('standalone')!.push(thread[0]);
+    yield event;
+  }
+  
+  // Only complete fetches are cached
+  if (complete) {
+    await cacheSet(cacheKey, allTweets, CACHE_TTL.userTweets);
+  }
+  yield { type: 'progress', phase: 'done' };
+}
+
+export interface FetchMoreTweetsOptions {
+  count: number; // New timeline tweets to look for
+  conversationDepth?: number; // See FetchUserTweetsOptions
+  signal?: AbortSignal;
+}
+
+// "Fetch More": continue from where the previous fetch for this account
+// stopped. Yields only tweets that are not in the cached timeline and
+// appends them to it.
+export async function* streamMoreUserTweets(
+  username: string,
+  options: FetchMoreTweetsOptions
+): AsyncGenerator<TweetStreamEvent> {
+  const conversationDepth = options.conversationDepth || 0;
+  const state = await loadCrawlState(username, conversationDepth);
+  if (!state) {
+    // Nothing to resume from, so start over with a fresh fetch
+    yield* streamUserTweets(username, {
+      initialFetch: options.count,
+      forceRefresh: true,
+      conversationDepth,
+      signal: options.signal
+    });
+    return;
+  }
+  
+  const cacheKey = userTweetsCacheKey(username, conversationDepth);
+  const cached = await cacheGet<Tweet[]>(cacheKey);
+  const knownIds = new Set((cached?.value || []).map(tweet => tweet.id));
+  const newTweets: Tweet[] = [];
+  
+  const stream = streamFromSource(username, options.signal, (emit, signal) =>
+    loadMoreTweetsFromSource(username, state, options.count, knownIds, emit, signal)
+  );
+  for await (const event of stream) {
+    if (event.type === 'batch') {
+      newTweets.push(...event.tweets);
     }
-  });
+    yield event;
+  }
   
-  // Process any remaining unprocessed tweets as standalone
-  tweets.forEach(tweet => {
-    if (!processedIds.has(tweet.id)) {
-      if (!threadMap.has('standalone')) {
-        threadMap.set('standalone', []);
-      }
-      threadMap.get('standalone')!.push(tweet);
-      processedIds.add(tweet.id);
+  // The cursor only moves on together with the tweets it went past, or a
+  // later Fetch More would skip them. Without a cached timeline to grow
+  // there is nowhere to keep them, so the crawl state stays where it was.
+  if (newTweets.length > 0 && !cached) {
+    console.warn(`No cached timeline for ${username}, not saving Fetch More progress`);
+  } else {
+    // Save progress even when the budget cut this run short
+    await saveCrawlState(username, state);
+    
+    // Grow the cached timeline without touching when it was stored or
+    // when it expires; a stale timeline stays stale
+    if (newTweets.length > 0) {
+      await cacheUpdate(cacheKey, [...cached.value, ...newTweets]);
     }
-  });
+  }
+  yield { type: 'progress', phase: 'done' };
+}
+
+export interface SyncUserTweetsOptions {
+  // Tweets already on screen, in addition to the cached timeline
+  knownTweets?: Tweet[];
+  conversationDepth?: number; // See FetchUserTweetsOptions
+  signal?: AbortSignal;
+}
+
+// Bring an already-loaded account up to date. Yields only new tweets and
+// ends with a sync event summarising what changed. Falls back to a regular
+// fetch when there is nothing to compare against.
+export async function* streamSyncUserTweets(
+  username: string,
+  options: SyncUserTweetsOptions = {}
+): AsyncGenerator<TweetStreamEvent> {
+  const conversationDepth = options.conversationDepth || 0;
+  const cacheKey = userTweetsCacheKey(username, conversationDepth);
+  const cached = await cacheGet<Tweet[]>(cacheKey);
   
-  // Build final result array
-  const result: (Tweet | Thread)[] = [];
+  const known = new Map<string, Tweet>();
+  (cached?.value || []).forEach(tweet => known.set(tweet.id, tweet));
+  (options.knownTweets || []).forEach(tweet => known.set(tweet.id, tweet));
   
-  // Create thread objects
-  threadMap.forEach((tweets, id) => {
-    if (id === 'standalone') {
-      // Add standalone tweets directly
-      result.push(...tweets);
-    } else if (tweets.length > 1) {
-      // Create a thread
-      result.push({
-        id,
-        tweets,
-        author: tweets[0].author,
-        created_at: tweets[0].created_at
-      });
+  if (known.size === 0) {
+    yield* streamUserTweets(username, { conversationDepth, signal: options.signal });
+    return;
+  }
+  
+  const state = await loadCrawlState(username, conversationDepth);
+  const newTweets: Tweet[] = [];
+  
+  const stream = streamFromSource(username, options.signal, (emit, signal) =>
+    loadSyncFromSource(username, known, state, conversationDepth, emit, signal)
+  );
+  for await (const event of stream) {
+    if (event.type === 'batch') {
+      newTweets.push(...event.tweets);
     }
-  });
+    yield event;
+  }
   
-  console.log(`Organized tweets into ${result.filter(item => 'tweets' in item).length} threads and ${result.filter(item => !('tweets' in item)).length} standalone tweets`);
+  if (state) {
+    await saveCrawlState(username, state);
+  }
   
+  // The head of the timeline is current again
+  if (newTweets.length > 0) {
+    await cacheSet(cacheKey, [...newTweets, ...Array.from(known.values())], CACHE_TTL.userTweets);
+  }
+  yield { type: 'progress', phase: 'done' };
+}
+
+// Main function to fetch user tweets with complete threads. Rejects with a
+// FetchError describing what went wrong (see errors.ts), or an AbortError.
+export const fetchUserTweets = async (username: string, options?: FetchUserTweetsOptions): Promise<Tweet[]> => {
+  try {
+    return await collectTweets(streamUserTweets(username, options));
+  } catch (error) {
+    // Cancellation is not a failure; let the caller know it happened
+    if (isAbortError(error)) throw error;
+    
+    console.error('Error fetching tweets:', error);
+    throw toFetchError(error);
+  }
+};
+
+// Age of the cached timeline for an account, or null if nothing is cached
+export const getUserTweetsCacheInfo = async (username: string, conversationDepth = 0): Promise<CacheInfo | null> => {
+  const cached = await cacheGet<Tweet[]>(userTweetsCacheKey(username, conversationDepth));
+  if (!cached) return null;
+
+  return {
+    storedAt: cached.storedAt,
+    expiresAt: cached.expiresAt,
+    stale: !isFresh(cached)
+  };
+};
+
+export const purgeUserTweetsCache = async (username: string, conversationDepth = 0): Promise<void> => {
+  await cacheDelete(userTweetsCacheKey(username, conversationDepth));
+  await cacheDelete(crawlStateCacheKey(username, conversationDepth));
+};
+
+// Group tweets into threads (see threadTree.ts). Thread tweets come in
+// reply order, branches included, with thread_position/thread_index set
+// to match. Manual edits in `overrides` (see threadOverrides.ts) win over
+// the heuristics; their tweets get the override id as thread_id, so they
+// are saved as one thread in the edited order.
+export const groupThreads = (tweets: Tweet[], overrides: ThreadOverride[] = []): (Tweet | Thread)[] => {
+  console.log(`Organizing ${tweets.length} tweets into threads`);
+
+  const { manual, rest } = applyThreadOverrides(tweets, overrides);
+  const groups = [
+    ...manual.map(group => ({ ...group, isManual: true })),
+    ...groupReplyThreads(rest).map(group => ({ id: group.id, tweets: group.tweets, isManual: false }))
+  ];
+
+  const result: (Tweet | Thread)[] = groups.map(group => {
+    if (group.tweets.length === 1) return group.tweets[0];
+
+    const threadTweets = group.tweets.map((tweet, index) => ({
+      ...tweet,
+      ...(group.isManual ? { thread_id: group.id } : {}),
+      thread_position: index,
+      thread_index: index
+    }));
+
+    return {
+      id: group.id,
+      tweets: threadTweets,
+      author: threadTweets[0].author,
+      created_at: threadTweets[0].created_at,
+      ...(group.isManual ? { isManual: true } : {})
+    };
+  });
+
+  console.log(`Organized tweets into ${result.filter(item => 'tweets' in item).length} threads and ${result.filter(item => !('tweets' in item)).length} standalone tweets`);
+
   // Sort by newest first
   return result.sort((a, b) => {
     const dateA = 'tweets' in a ? new Date(a.tweets[0].created_at).getTime() : new Date(a.created_at).getTime();
@@ -839,26 +1275,31 @@ export const groupThreads = (tweets: Tweet[]): (Tweet | Thread)[] => {
   });
 };
 
-// Other API functions (saveSelectedTweets, fetchTweetDetails, etc.) remain similar to original
-// but can be simplified using the new processTweet function
+// Single-tweet lookups go through the active tweet source as well
 
-export const fetchTweetDetails = async (tweetId: string, isSaved: boolean = false): Promise<Tweet | null> => {
-  if (!tweetId) return null;
+// Cached lookup of one tweet; errors are left to the caller
+const loadTweetDetails = async (
+  tweetId: string,
+  signal?: AbortSignal,
+  priority?: RequestPriority
+): Promise<Tweet | null> => {
+  const cached = await cacheGet<Tweet>(tweetDetailsCacheKey(tweetId));
+  if (cached && isFresh(cached)) {
+    return cached.value;
+  }
 
-  try {
-    if (API_CACHE.tweetDetails.has(tweetId)) {
-      return API_CACHE.tweetDetails.get(tweetId) || null;
-    }
+  const processedTweet = await tweetSource.getTweet(tweetId, signal, priority);
+  if (!processedTweet) return null;
 
-    const url = `https://twitter154.p.rapidapi.com/tweet/details?tweet_id=${tweetId}`;
-    if (hasRecentlyFailed(url)) return null;
+  await cacheSet(tweetDetailsCacheKey(tweetId), processedTweet, CACHE_TTL.tweetDetails);
+  return processedTweet;
+};
 
-    const data = await makeApiRequest(url);
-    if (!data) return null;
+export const fetchTweetDetails = async (tweetId: string, isSaved: boolean = false): Promise<Tweet | null> => {
+  if (!tweetId) return null;
 
-    const processedTweet = processTweet(data);
-    API_CACHE.tweetDetails.set(tweetId, processedTweet);
-    return processedTweet;
+  try {
+    return await loadTweetDetails(tweetId);
   } catch (error) {
     console.error('Error fetching tweet details:', error);
     return null;
@@ -870,17 +1311,11 @@ export const fetchTweetContinuation = async (tweetId: string, isSaved: boolean =
 
   try {
     console.log(`Fetching tweet continuation for tweet ${tweetId}`);
-    const url = `https://twitter154.p.rapidapi.com/tweet/continuation?tweet_id=${tweetId}`;
-    if (hasRecentlyFailed(url)) return null;
-
-    const data = await makeApiRequest(url);
-    if (!data) {
+    const processedTweet = await tweetSource.getContinuation(tweetId);
+    if (!processedTweet) {
       console.log(`No continuation data found for tweet ${tweetId}`);
       return null;
     }
-
-    // Process the tweet
-    const processedTweet = processTweet(data);
     
     // Log the continuation tweet information
     console.log(`Found continuation tweet ${processedTweet.id} for tweet ${tweetId}`, {
@@ -897,16 +1332,14 @@ export const fetchTweetContinuation = async (tweetId: string, isSaved: boolean =
   }
 };
 
-export const saveSelectedTweets = async (tweets: Tweet[], username: string = 'anonymous'): Promise<boolean> => {
+// Save tweets in thread order to the configured storage (see savedStore.ts).
+// In remote mode it rejects with a BackendError (see errors.ts) if the
+// backend can't be reached or refuses them.
+export const saveTweets = async (tweets: Tweet[], username: string = 'anonymous'): Promise<SaveTweetsResult> => {
   try {
     // Validate input
     if (!tweets || tweets.length === 0) {
-      toast({
-        title: 'No Tweets to Save',
-        description: 'Please select tweets before saving.',
-        variant: 'destructive',
-      });
-      return false;
+      throw new Error('No tweets to save');
     }
 
     console.log(`Saving ${tweets.length} tweets for user "${username}"`);
@@ -978,48 +1411,16 @@ export const saveSelectedTweets = async (tweets: Tweet[], username: string = 'an
     });
     
     // Make the API request
-    const response = await fetch(`${BACKEND_API_URL}/save`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ 
-        tweets: processedTweets, 
-        username, 
-        options: {
-          preserveExisting: true,
-          skipDuplicates: true,
-          preserveThreadOrder: true
-        }
-      }),
-    });
-
-    // Check response status
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`API error: ${response.status} - ${errorText}`);
-      throw new Error(`Error saving tweets: ${response.status} - ${errorText}`);
-    }
-
-    // Parse and handle response data
-    const data = await response.json();
-    
-    // Show success toast
-    toast({
-      title: 'Tweets Saved',
-      description: data.skippedCount 
-        ? `${data.count} tweets saved. ${data.skippedCount} duplicates skipped.` 
-        : `${data.count} tweets saved to database.`,
+    const data = await savedStore.saveTweets(processedTweets, username, {
+      preserveExisting: true,
+      skipDuplicates: true,
+      preserveThreadOrder: true
     });
     
-    return true;
+    console.log(`Saved ${data.count} tweets, skipped ${data.skippedCount || 0} duplicates`);
+    return data;
   } catch (error) {
     console.error('Error saving tweets:', error);
-    toast({
-      title: 'Error',
-      description: 'Failed to save tweets. Please try again.',
-      variant: 'destructive',
-    });
-    return false;
+    throw error;
   }
 };
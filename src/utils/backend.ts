@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { ApiResponse, DeleteTweetsResult, SavedUser, SaveTweetsResult, Thread, Tweet } from './types';
+import { createBackendError } from './errors';
+
+// Staging and local builds point VITE_BACKEND_API_URL at their own backend
+const DEFAULT_BACKEND_API_URL = 'https://twitter-aee7.onrender.com/api/tweets';
+
+export const BACKEND_API_URL = (import.meta.env.VITE_BACKEND_API_URL || DEFAULT_BACKEND_API_URL).replace(/\/$/, '');
+
+// The backend deletes one tweet per request; this many run at a time
+const DELETE_CONCURRENCY = 5;
+
+// Saved items are tweets or threads as the app stored them; only the parts
+// the UI can't do without are checked
+const savedItemSchema = z.object({
+  id: z.string().min(1),
+  tweets: z.array(z.object({ id: z.string().min(1) }).passthrough()).optional(),
+}).passthrough();
+
+const savedTweetsResponseSchema = z.object({
+  success: z.boolean(),
+  count: z.number(),
+  data: z.array(savedItemSchema).nullish(),
+}).passthrough();
+
+const savedUserSchema = z.object({
+  username: z.string().min(1),
+  tweetCount: z.number(),
+  lastSaved: z.object({
+    savedAt: z.string(),
+    author: z.object({ profile_image_url: z.string().optional() }).passthrough().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+const savedUsersResponseSchema = z.object({
+  data: z.array(savedUserSchema),
+}).passthrough();
+
+const saveResponseSchema = z.object({
+  count: z.number(),
+  skippedCount: z.number().optional(),
+}).passthrough();
+
+const deleteUserResponseSchema = z.object({
+  deletedCount: z.number(),
+}).passthrough();
+
+export interface SaveTweetsOptions {
+  preserveExisting?: boolean;
+  skipDuplicates?: boolean;
+  preserveThreadOrder?: boolean;
+}
+
+// Typed client for the saved tweets backend. Every method rejects with a
+// BackendError (see errors.ts) when the call fails or the response doesn't
+// have the expected shape.
+export const createBackendClient = (baseUrl: string) => {
+  const send = async (path: string, init?: RequestInit): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, init);
+    } catch (error) {
+      throw createBackendError('network', `Could not reach the backend: ${error}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      console.error(`Backend error: ${response.status} - ${errorText}`);
+      throw createBackendError('http', `Backend error: ${response.status}${errorText ? ` - ${errorText}` : ''}`, response.status);
+    }
+
+    return response;
+  };
+
+  const request = async <T extends z.ZodTypeAny>(path: string, schema: T, init?: RequestInit): Promise<z.infer<T>> => {
+    const response = await send(path, init);
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw createBackendError('invalid-response', `Backend returned invalid JSON for ${path}`, response.status);
+    }
+
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      console.error(`Unexpected backend response for ${path}:`, result.error.issues);
+      throw createBackendError('invalid-response', `Unexpected backend response for ${path}`, response.status);
+    }
+    return result.data;
+  };
+
+  const deleteTweet = async (id: string): Promise<void> => {
+    await send(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  };
+
+  // The casts below only narrow what the schemas already checked; zod can't
+  // infer required keys without strictNullChecks
+  return {
+    saveTweets: async (tweets: Tweet[], username: string, options: SaveTweetsOptions = {}): Promise<SaveTweetsResult> => {
+      const response = await request('/save', saveResponseSchema, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ tweets, username, options }),
+      });
+      return response as SaveTweetsResult;
+    },
+
+    listSavedUsers: async (): Promise<SavedUser[]> => {
+      const response = await request('/saved/users', savedUsersResponseSchema);
+      return response.data as SavedUser[];
+    },
+
+    // Everything saved, or only what `username` saved
+    listSavedTweets: async (username?: string): Promise<ApiResponse> => {
+      const path = username ? `/saved/user/${encodeURIComponent(username)}` : '/saved';
+      const response = await request(path, savedTweetsResponseSchema);
+      return {
+        success: response.success,
+        count: response.count,
+        data: (response.data || []) as unknown as (Tweet | Thread)[],
+      };
+    },
+
+    deleteTweet,
+
+    // Delete several tweets, reporting which ones went and which didn't
+    // instead of failing the whole batch
+    deleteTweets: async (ids: string[]): Promise<DeleteTweetsResult> => {
+      const result: DeleteTweetsResult = { deleted: [], failed: [] };
+
+      for (let i = 0; i < ids.length; i += DELETE_CONCURRENCY) {
+        const chunk = ids.slice(i, i + DELETE_CONCURRENCY);
+        const outcomes = await Promise.allSettled(chunk.map(deleteTweet));
+        outcomes.forEach((outcome, index) => {
+          if (outcome.status === 'fulfilled') {
+            result.deleted.push(chunk[index]);
+          } else {
+            result.failed.push({ id: chunk[index], error: String(outcome.reason?.message || outcome.reason) });
+          }
+        });
+      }
+
+      return result;
+    },
+
+    // Returns how many tweets were removed
+    deleteUserTweets: async (username: string): Promise<number> => {
+      const response = await request(`/user/${encodeURIComponent(username)}`, deleteUserResponseSchema, { method: 'DELETE' });
+      return response.deletedCount;
+    },
+  };
+};
+
+export type BackendClient = ReturnType<typeof createBackendClient>;
+
+export const backend = createBackendClient(BACKEND_API_URL);
@@ -0,0 +1,146 @@
+// Persistent cache for API results, backed by IndexedDB with an in-memory
+// layer in front of it. Entries carry their own TTL; expired entries are
+// still returned (marked stale) so callers can serve them while revalidating.
+
+const DB_NAME = 'tweet-manager-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+export interface CacheEntry<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null when IndexedDB is unavailable (private mode, old browsers),
+// in which case the cache silently falls back to memory only
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB cache unavailable, using memory only:', request.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn('IndexedDB cache unavailable, using memory only:', error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const isFresh = (entry: CacheEntry<unknown>): boolean => Date.now() < entry.expiresAt;
+
+export const cacheGet = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  const inMemory = memoryCache.get(key);
+  if (inMemory) return inMemory as CacheEntry<T>;
+
+  try {
+    const stored = await runTransaction<CacheEntry<T>>('readonly', store => store.get(key));
+    if (stored) {
+      memoryCache.set(key, stored);
+      return stored;
+    }
+  } catch (error) {
+    console.error(`Error reading cache entry ${key}:`, error);
+  }
+
+  return null;
+};
+
+export const cacheSet = async <T>(key: string, value: T, ttl: number): Promise<void> => {
+  const entry: CacheEntry<T> = {
+    key,
+    value,
+    storedAt: Date.now(),
+    expiresAt: Date.now() + ttl,
+  };
+  memoryCache.set(key, entry);
+
+  try {
+    await runTransaction('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.error(`Error writing cache entry ${key}:`, error);
+  }
+};
+
+// Replace the value of an existing entry, keeping its storedAt and expiresAt.
+// Does nothing if there is no entry for `key`.
+export const cacheUpdate = async <T>(key: string, value: T): Promise<void> => {
+  const existing = await cacheGet<T>(key);
+  if (!existing) return;
+
+  const entry: CacheEntry<T> = { ...existing, value };
+  memoryCache.set(key, entry);
+
+  try {
+    await runTransaction('readwrite', store => store.put(entry));
+  } catch (error) {
+    console.error(`Error writing cache entry ${key}:`, error);
+  }
+};
+
+export const cacheDelete = async (key: string): Promise<void> => {
+  memoryCache.delete(key);
+
+  try {
+    await runTransaction('readwrite', store => store.delete(key));
+  } catch (error) {
+    console.error(`Error deleting cache entry ${key}:`, error);
+  }
+};
+
+// Drop every entry whose key starts with `prefix`
+export const cacheDeletePrefix = async (prefix: string): Promise<void> => {
+  for (const key of Array.from(memoryCache.keys())) {
+    if (key.startsWith(prefix)) memoryCache.delete(key);
+  }
+
+  try {
+    // Keys are strings, so [prefix, prefix + '\uffff'] covers every key with that prefix
+    await runTransaction('readwrite', store => store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+  } catch (error) {
+    console.error(`Error deleting cache entries under ${prefix}:`, error);
+  }
+};
+
+export const cacheClear = async (): Promise<void> => {
+  memoryCache.clear();
+
+  try {
+    await runTransaction('readwrite', store => store.clear());
+  } catch (error) {
+    console.error('Error clearing cache:', error);
+  }
+};
@@ -0,0 +1,128 @@
+import { ZodError } from 'zod';
+
+// Provider records that failed schema validation. They are left out of the
+// results and kept here, so a provider changing its payloads shows up as
+// a list of broken fields instead of as missing or crashing tweets.
+const DIAGNOSTICS_STORAGE_KEY = 'tweet-manager-payload-diagnostics';
+const MAX_RECORDS = 50;
+const MAX_SAMPLE_LENGTH = 2000;
+
+export interface PayloadIssue {
+  path: string; // Dotted field path, e.g. user.username
+  message: string;
+}
+
+export interface QuarantinedRecord {
+  source: string;
+  endpoint: string;
+  recordId?: string;
+  issues: PayloadIssue[];
+  receivedAt: number;
+  sample: string; // The record as JSON, truncated
+}
+
+export interface PayloadDiagnostics {
+  total: number;
+  byEndpoint: Record<string, number>;
+  byField: Record<string, number>; // Array indices collapsed, e.g. entities.media[].url
+  records: QuarantinedRecord[];    // Most recent first
+}
+
+type DiagnosticsListener = () => void;
+
+const diagnosticsListeners = new Set<DiagnosticsListener>();
+
+const emptyDiagnostics = (): PayloadDiagnostics => ({ total: 0, byEndpoint: {}, byField: {}, records: [] });
+
+const readDiagnostics = (): PayloadDiagnostics => {
+  try {
+    const stored = localStorage.getItem(DIAGNOSTICS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : emptyDiagnostics();
+  } catch (error) {
+    console.error('Error reading payload diagnostics:', error);
+    return emptyDiagnostics();
+  }
+};
+
+const writeDiagnostics = (diagnostics: PayloadDiagnostics) => {
+  try {
+    localStorage.setItem(DIAGNOSTICS_STORAGE_KEY, JSON.stringify(diagnostics));
+  } catch (error) {
+    console.error('Error saving payload diagnostics:', error);
+  }
+  diagnosticsListeners.forEach(listener => listener());
+};
+
+const formatPath = (path: (string | number)[], collapseIndices = false): string => {
+  const formatted = path
+    .map(part => typeof part === 'number' ? `[${collapseIndices ? '' : part}]` : `.${part}`)
+    .join('')
+    .replace(/^\./, '');
+  return formatted || '(root)';
+};
+
+const toSample = (record: unknown): string => {
+  try {
+    const json = JSON.stringify(record, null, 2) ?? String(record);
+    return json.length > MAX_SAMPLE_LENGTH ? `${json.slice(0, MAX_SAMPLE_LENGTH)}\n…` : json;
+  } catch {
+    return String(record);
+  }
+};
+
+// Set a record aside and count which of its fields failed
+export const quarantineRecord = (source: string, endpoint: string, record: unknown, error: ZodError) => {
+  const diagnostics = readDiagnostics();
+  const rawId = (record as { tweet_id?: unknown } | null)?.tweet_id;
+
+  const issues = error.issues.map(issue => ({
+    path: formatPath(issue.path),
+    message: issue.message
+  }));
+  console.warn(`Quarantined invalid ${source} record from ${endpoint}:`, issues);
+
+  const byField = { ...diagnostics.byField };
+  new Set(error.issues.map(issue => formatPath(issue.path, true))).forEach(field => {
+    byField[field] = (byField[field] || 0) + 1;
+  });
+
+  writeDiagnostics({
+    total: diagnostics.total + 1,
+    byEndpoint: { ...diagnostics.byEndpoint, [endpoint]: (diagnostics.byEndpoint[endpoint] || 0) + 1 },
+    byField,
+    records: [
+      {
+        source,
+        endpoint,
+        recordId: rawId === undefined || rawId === null ? undefined : String(rawId),
+        issues,
+        receivedAt: Date.now(),
+        sample: toSample(record)
+      },
+      ...diagnostics.records
+    ].slice(0, MAX_RECORDS)
+  });
+};
+
+export const getPayloadDiagnostics = (): PayloadDiagnostics => readDiagnostics();
+
+export const clearPayloadDiagnostics = () => {
+  writeDiagnostics(emptyDiagnostics());
+};
+
+// Returns an unsubscribe function. Also fires for records quarantined in another tab.
+export const subscribeToDiagnostics = (listener: DiagnosticsListener): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === DIAGNOSTICS_STORAGE_KEY) {
+      listener();
+    }
+  };
+
+  diagnosticsListeners.add(listener);
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    diagnosticsListeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
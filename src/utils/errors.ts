@@ -0,0 +1,106 @@
+// Failures of the tweet fetch pipeline, tagged by kind so the UI can tell
+// a missing account from a protected one, a rate limit or a bad payload.
+// Like AbortError they are plain Errors identified by name, so they survive
+// being rethrown through streams and promise chains.
+
+export type FetchErrorKind =
+  | 'rate-limited'       // The API refused more calls until `resetAt`
+  | 'plan-limit'         // The API plan's own quota is used up until `resetAt`
+  | 'user-not-found'     // No account with that username
+  | 'protected-account'  // The account exists but its tweets are private
+  | 'suspended'          // The account has been suspended
+  | 'quota-exhausted'    // Our own daily call budget is used up
+  | 'malformed-response' // The API answered with something we can't read
+  | 'network'            // The request never got an answer
+  | 'api';               // Any other HTTP error
+
+export interface FetchError extends Error {
+  kind: FetchErrorKind;
+  status?: number;   // HTTP status, when there was a response
+  resetAt?: number;  // rate-limited, plan-limit: when calls are allowed again (ms since epoch)
+  username?: string; // Account the failure is about, if any
+}
+
+type FetchErrorDetails = Pick<FetchError, 'status' | 'resetAt' | 'username'>;
+
+const FETCH_ERROR_NAME = 'FetchError';
+
+export const createFetchError = (kind: FetchErrorKind, message: string, details: FetchErrorDetails = {}): FetchError => {
+  const error = new Error(message) as FetchError;
+  error.name = FETCH_ERROR_NAME;
+  error.kind = kind;
+  Object.assign(error, details);
+  return error;
+};
+
+// Optionally narrowed to one kind, e.g. isFetchError(error, 'rate-limited')
+export const isFetchError = (error: unknown, kind?: FetchErrorKind): error is FetchError =>
+  error instanceof Error &&
+  error.name === FETCH_ERROR_NAME &&
+  (!kind || (error as FetchError).kind === kind);
+
+// Classify an HTTP failure that has no more specific meaning at the call site
+export const fetchErrorFromStatus = (status: number, resetAt?: number): FetchError => {
+  if (status === 0) {
+    return createFetchError('network', 'Could not reach the API. Check your connection.');
+  }
+  if (status === 429) {
+    return createFetchError('rate-limited', 'The API rate limit was reached.', {
+      status,
+      resetAt: resetAt || Date.now() + 60 * 1000
+    });
+  }
+  return createFetchError('api', `API error: ${status}`, { status });
+};
+
+// Wrap anything thrown during a fetch so callers only deal with FetchErrors
+export const toFetchError = (error: unknown): FetchError => {
+  if (isFetchError(error)) return error;
+
+  // XHR and fetch() failures without a response
+  if (error instanceof TypeError) {
+    return createFetchError('network', 'Could not reach the API. Check your connection.');
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return createFetchError('api', message || 'Failed to fetch tweets.');
+};
+
+// Same shape fetch() uses when a request is aborted
+export const createAbortError = (): DOMException => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Failures talking to the saved tweets backend
+export type BackendErrorKind =
+  | 'network'          // The backend could not be reached
+  | 'http'             // It answered with an error status
+  | 'invalid-response'; // It answered with something we can't read
+
+export interface BackendError extends Error {
+  kind: BackendErrorKind;
+  status?: number;
+}
+
+const BACKEND_ERROR_NAME = 'BackendError';
+
+export const createBackendError = (kind: BackendErrorKind, message: string, status?: number): BackendError => {
+  const error = new Error(message) as BackendError;
+  error.name = BACKEND_ERROR_NAME;
+  error.kind = kind;
+  error.status = status;
+  return error;
+};
+
+export const isBackendError = (error: unknown, kind?: BackendErrorKind): error is BackendError =>
+  error instanceof Error &&
+  error.name === BACKEND_ERROR_NAME &&
+  (!kind || (error as BackendError).kind === kind);
+
+// Network failures and server errors are worth another try; client errors
+// and unreadable responses will fail the same way again
+export const isRetryableBackendError = (error: unknown): boolean => {
+  if (!isBackendError(error)) return false;
+  return error.kind === 'network' || (error.kind === 'http' && (error.status || 0) >= 500);
+};
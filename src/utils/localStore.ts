@@ -0,0 +1,242 @@
+import { ApiResponse, DeleteTweetsResult, SavedUser, SaveTweetsResult, Tweet } from './types';
+import { SaveTweetsOptions } from './backend';
+
+// Saved tweets kept in this browser, with the same operations as the backend
+// client. Tweets are keyed by id like on the backend; deletions leave a
+// tombstone behind so a later sync can remove the tweet remotely too.
+
+const DB_NAME = 'tweet-manager-saved';
+const DB_VERSION = 1;
+const TWEETS_STORE = 'tweets';
+const DELETIONS_STORE = 'deletions';
+
+export interface Deletion {
+  id: string;
+  deletedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Unlike the API cache there is no memory fallback: saved tweets that vanish
+// on reload would be worse than an error
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Local storage for saved tweets is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const tweets = request.result.createObjectStore(TWEETS_STORE, { keyPath: 'id' });
+      tweets.createIndex('savedBy', 'savedBy');
+      request.result.createObjectStore(DELETIONS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Let the next call try again instead of failing forever
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Runs `operation` in one transaction over both stores and resolves once
+// everything it did is committed
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  operation: (tweets: IDBObjectStore, deletions: IDBObjectStore) => Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const transaction = db.transaction([TWEETS_STORE, DELETIONS_STORE], mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  let result: T;
+  try {
+    result = await operation(transaction.objectStore(TWEETS_STORE), transaction.objectStore(DELETIONS_STORE));
+  } catch (error) {
+    // Don't keep half of a failed write
+    try {
+      transaction.abort();
+    } catch {
+      // Already finished on its own
+    }
+    done.catch(() => undefined);
+    throw error;
+  }
+  await done;
+  return result;
+};
+
+// savedAt comes back from the backend as a string and from older code as a
+// Date; anything unreadable sorts as oldest
+export const savedAtTime = (tweet: { savedAt?: Date | string }): number => {
+  const time = tweet.savedAt ? new Date(tweet.savedAt).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+};
+
+const byCreatedAt = (a: Tweet, b: Tweet) => {
+  const diff = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  return isNaN(diff) ? a.id.localeCompare(b.id) : diff;
+};
+
+// Number the tweets of each thread in this batch by creation date
+const renumberThreads = (tweets: Tweet[]): Tweet[] => {
+  const positions = new Map<string, number>();
+  return [...tweets].sort(byCreatedAt).map(tweet => {
+    if (!tweet.thread_id) return tweet;
+    const position = positions.get(tweet.thread_id) || 0;
+    positions.set(tweet.thread_id, position + 1);
+    return { ...tweet, thread_position: position };
+  });
+};
+
+export const createLocalStore = () => {
+  const listAll = (): Promise<Tweet[]> =>
+    withStores('readonly', tweets => promisify(tweets.getAll() as IDBRequest<Tweet[]>));
+
+  return {
+    // Same options as the backend:
+    // - skipDuplicates: tweets that are already saved are left alone and counted as skipped
+    // - preserveExisting: re-saved tweets keep what was stored, including savedAt and savedBy
+    // - preserveThreadOrder: keep thread_position as sent instead of renumbering by date
+    saveTweets: async (tweets: Tweet[], username: string, options: SaveTweetsOptions = {}): Promise<SaveTweetsResult> => {
+      const savedAt = new Date().toISOString();
+      const incoming = options.preserveThreadOrder ? tweets : renumberThreads(tweets);
+
+      return withStores('readwrite', async (store, deletions) => {
+        let count = 0;
+        let skippedCount = 0;
+
+        for (const tweet of incoming) {
+          const existing = await promisify(store.get(tweet.id) as IDBRequest<Tweet | undefined>);
+          if (existing && options.skipDuplicates) {
+            skippedCount++;
+            continue;
+          }
+
+          const fresh: Tweet = { ...tweet, savedAt, savedBy: username };
+          store.put(existing && options.preserveExisting ? { ...fresh, ...existing } : fresh);
+          // Saving again undoes an earlier delete that hasn't been synced yet
+          deletions.delete(tweet.id);
+          count++;
+        }
+
+        return { count, skippedCount };
+      });
+    },
+
+    listSavedUsers: async (): Promise<SavedUser[]> => {
+      const users = new Map<string, SavedUser>();
+
+      for (const tweet of await listAll()) {
+        const username = tweet.savedBy || 'anonymous';
+        const user = users.get(username) || { username, tweetCount: 0 };
+        user.tweetCount++;
+        if (!user.lastSaved || savedAtTime(tweet) > new Date(user.lastSaved.savedAt).getTime()) {
+          user.lastSaved = {
+            savedAt: new Date(savedAtTime(tweet)).toISOString(),
+            author: { profile_image_url: tweet.author?.profile_image_url },
+          };
+        }
+        users.set(username, user);
+      }
+
+      return Array.from(users.values()).sort((a, b) => a.username.localeCompare(b.username));
+    },
+
+    // Everything saved, or only what `username` saved. Tweets come back
+    // ungrouped; the saved tweets page puts threads together by thread_id.
+    listSavedTweets: async (username?: string): Promise<ApiResponse> => {
+      const tweets = username
+        ? await withStores('readonly', store =>
+            promisify(store.index('savedBy').getAll(username) as IDBRequest<Tweet[]>)
+          )
+        : await listAll();
+
+      return { success: true, count: tweets.length, data: tweets };
+    },
+
+    deleteTweet: async (id: string): Promise<void> => {
+      await withStores('readwrite', async (store, deletions) => {
+        store.delete(id);
+        deletions.put({ id, deletedAt: new Date().toISOString() });
+      });
+    },
+
+    // All or nothing, since it is one transaction
+    deleteTweets: async (ids: string[]): Promise<DeleteTweetsResult> => {
+      await withStores('readwrite', async (store, deletions) => {
+        const deletedAt = new Date().toISOString();
+        ids.forEach(id => {
+          store.delete(id);
+          deletions.put({ id, deletedAt });
+        });
+      });
+      return { deleted: ids, failed: [] };
+    },
+
+    // Returns how many tweets were removed
+    deleteUserTweets: async (username: string): Promise<number> => {
+      return withStores('readwrite', async (store, deletions) => {
+        const ids = await promisify(store.index('savedBy').getAllKeys(username));
+        const deletedAt = new Date().toISOString();
+        ids.forEach(id => {
+          store.delete(id);
+          deletions.put({ id: String(id), deletedAt });
+        });
+        return ids.length;
+      });
+    },
+
+    // Used by sync (see savedStore.ts)
+
+    listAll,
+
+    // Store tweets exactly as given, savedAt included
+    putTweets: async (tweets: Tweet[]): Promise<void> => {
+      await withStores('readwrite', async (store, deletions) => {
+        tweets.forEach(tweet => {
+          store.put(tweet);
+          deletions.delete(tweet.id);
+        });
+      });
+    },
+
+    // Remove tweets without leaving tombstones, e.g. when they were deleted remotely
+    removeTweets: async (ids: string[]): Promise<void> => {
+      await withStores('readwrite', async store => {
+        ids.forEach(id => store.delete(id));
+      });
+    },
+
+    listDeletions: (): Promise<Deletion[]> =>
+      withStores('readonly', (_store, deletions) => promisify(deletions.getAll() as IDBRequest<Deletion[]>)),
+
+    clearDeletions: async (ids: string[]): Promise<void> => {
+      await withStores('readwrite', async (_store, deletions) => {
+        ids.forEach(id => deletions.delete(id));
+      });
+    },
+  };
+};
+
+export type LocalStore = ReturnType<typeof createLocalStore>;
+
+export const localStore = createLocalStore();
@@ -0,0 +1,215 @@
+import { saveTweets } from './api';
+import { isBackendError, isRetryableBackendError } from './errors';
+import { getStorageMode } from './savedStore';
+import { SaveTweetsResult, Tweet } from './types';
+
+// Saves that couldn't reach the backend, persisted so they survive reloads
+// and retried with backoff. Batches that failed for a reason retrying won't
+// fix (e.g. the backend rejected them) wait for the user to retry or discard.
+
+const OUTBOX_STORAGE_KEY = 'tweet-manager-save-outbox';
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+
+export interface OutboxBatch {
+  id: string;
+  username: string;
+  tweets: Tweet[];
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+  // When the next automatic retry is due; unset when only a manual retry will help
+  nextAttemptAt?: string;
+}
+
+export type SaveOutcome =
+  | { status: 'saved'; result: SaveTweetsResult }
+  | { status: 'queued'; batch: OutboxBatch };
+
+type OutboxListener = () => void;
+
+const outboxListeners = new Set<OutboxListener>();
+// Batches being sent right now, so a retry and the timer don't send one twice
+const inFlight = new Set<string>();
+
+const readOutbox = (): OutboxBatch[] => {
+  try {
+    const stored = localStorage.getItem(OUTBOX_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading save outbox:', error);
+    return [];
+  }
+};
+
+const writeOutbox = (batches: OutboxBatch[]) => {
+  try {
+    localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(batches));
+  } catch (error) {
+    console.error('Error saving save outbox:', error);
+  }
+  outboxListeners.forEach(listener => listener());
+};
+
+const updateBatch = (id: string, update: (batch: OutboxBatch) => OutboxBatch) => {
+  writeOutbox(readOutbox().map(batch => batch.id === id ? update(batch) : batch));
+};
+
+// 30s, 1m, 2m, ... up to 30m
+const retryDelay = (attempts: number) => Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** Math.max(0, attempts - 1));
+
+const nextAttemptAfter = (error: unknown, attempts: number): string | undefined => {
+  return isRetryableBackendError(error) ? new Date(Date.now() + retryDelay(attempts)).toISOString() : undefined;
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+export const getOutbox = (): OutboxBatch[] => readOutbox();
+
+const enqueueSave = (tweets: Tweet[], username: string, error: unknown): OutboxBatch => {
+  const batch: OutboxBatch = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    username,
+    tweets,
+    queuedAt: new Date().toISOString(),
+    attempts: error ? 1 : 0,
+    lastError: error ? errorMessage(error) : undefined,
+    // Offline saves go out as soon as the connection is back
+    nextAttemptAt: error ? nextAttemptAfter(error, 1) : new Date().toISOString(),
+  };
+
+  writeOutbox([...readOutbox(), batch]);
+  return batch;
+};
+
+// Save now, or queue the save when the backend can't take it. Only
+// backend failures are queued; anything else is thrown as before.
+export const saveOrQueue = async (tweets: Tweet[], username: string): Promise<SaveOutcome> => {
+  // Nothing to wait for when tweets are stored in this browser
+  if (getStorageMode() === 'remote' && typeof navigator !== 'undefined' && !navigator.onLine && tweets.length > 0) {
+    return { status: 'queued', batch: enqueueSave(tweets, username, null) };
+  }
+
+  try {
+    return { status: 'saved', result: await saveTweets(tweets, username) };
+  } catch (error) {
+    if (!isBackendError(error)) throw error;
+    return { status: 'queued', batch: enqueueSave(tweets, username, error) };
+  }
+};
+
+// Send one batch again. Resolves to whether it was saved; failures are
+// recorded on the batch and scheduled for another try when that can help.
+export const retryBatch = async (id: string): Promise<boolean> => {
+  const batch = readOutbox().find(item => item.id === id);
+  if (!batch || inFlight.has(id)) return false;
+
+  inFlight.add(id);
+  let failure: unknown = null;
+  try {
+    await saveTweets(batch.tweets, batch.username);
+  } catch (error) {
+    failure = error;
+  }
+  // Cleared before writing so listeners see the batch as schedulable again
+  inFlight.delete(id);
+
+  if (!failure) {
+    writeOutbox(readOutbox().filter(item => item.id !== id));
+    return true;
+  }
+
+  console.warn(`Queued save for "${batch.username}" failed again:`, failure);
+  updateBatch(id, current => ({
+    ...current,
+    attempts: current.attempts + 1,
+    lastError: errorMessage(failure),
+    nextAttemptAt: nextAttemptAfter(failure, current.attempts + 1),
+  }));
+  return false;
+};
+
+export const discardBatch = (id: string) => {
+  writeOutbox(readOutbox().filter(batch => batch.id !== id));
+};
+
+// Retry every batch that is due, or every retryable one when `ignoreBackoff`
+// (e.g. the connection just came back). Resolves to how many were saved.
+export const flushOutbox = async (ignoreBackoff = false): Promise<number> => {
+  const now = Date.now();
+  const due = readOutbox().filter(batch =>
+    batch.nextAttemptAt && (ignoreBackoff || new Date(batch.nextAttemptAt).getTime() <= now)
+  );
+
+  let saved = 0;
+  for (const batch of due) {
+    if (await retryBatch(batch.id)) saved++;
+  }
+  return saved;
+};
+
+// Retry queued saves when they are due and whenever the browser comes back
+// online. `onSaved` runs after any queued batches were saved. Returns a stop
+// function.
+export const startOutboxRetries = (onSaved: () => void): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const flush = async (ignoreBackoff: boolean) => {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    const saved = await flushOutbox(ignoreBackoff);
+    if (saved > 0) onSaved();
+  };
+
+  // Wake up for the earliest batch that is due
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    // Offline batches wait for the online event instead
+    if (stopped || (typeof navigator !== 'undefined' && !navigator.onLine)) return;
+
+    // Batches being sent are rescheduled when they settle
+    const dueTimes = readOutbox()
+      .filter(batch => batch.nextAttemptAt && !inFlight.has(batch.id))
+      .map(batch => new Date(batch.nextAttemptAt!).getTime());
+    if (dueTimes.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...dueTimes) - Date.now());
+    timer = setTimeout(() => {
+      flush(false).finally(schedule);
+    }, delay);
+  };
+
+  // Back online: retry every queued save without waiting for its backoff
+  const onOnline = () => {
+    flush(true).finally(schedule);
+  };
+
+  window.addEventListener('online', onOnline);
+  const unsubscribe = subscribeToOutbox(schedule);
+  schedule();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    window.removeEventListener('online', onOnline);
+    unsubscribe();
+  };
+};
+
+// Returns an unsubscribe function. Also fires when another tab changes the outbox.
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === OUTBOX_STORAGE_KEY) {
+      listener();
+    }
+  };
+
+  outboxListeners.add(listener);
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    outboxListeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
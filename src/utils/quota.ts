@@ -0,0 +1,126 @@
+import { format } from 'date-fns';
+import { createFetchError, FetchError, isFetchError } from './errors';
+
+// Outbound API calls per day, persisted so the count survives reloads
+const USAGE_STORAGE_KEY = 'tweet-manager-quota-usage';
+const BUDGET_STORAGE_KEY = 'tweet-manager-quota-budget';
+const DEFAULT_DAILY_BUDGET = 500;
+const HISTORY_DAYS = 7;
+
+export interface QuotaUsage {
+  date: string; // yyyy-MM-dd, local time
+  total: number;
+  byEndpoint: Record<string, number>;
+}
+
+type QuotaListener = () => void;
+
+const quotaListeners = new Set<QuotaListener>();
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// Usage history keyed by date
+const readHistory = (): Record<string, QuotaUsage> => {
+  try {
+    const stored = localStorage.getItem(USAGE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading API quota usage:', error);
+    return {};
+  }
+};
+
+const writeHistory = (history: Record<string, QuotaUsage>) => {
+  // Only keep the most recent days
+  const dates = Object.keys(history).sort().slice(-HISTORY_DAYS);
+  const trimmed = Object.fromEntries(dates.map(date => [date, history[date]]));
+
+  try {
+    localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(trimmed));
+  } catch (error) {
+    console.error('Error saving API quota usage:', error);
+  }
+};
+
+const notifyQuotaListeners = () => {
+  quotaListeners.forEach(listener => listener());
+};
+
+// Group calls by path with ids and usernames collapsed, e.g. /2/users/:id/tweets
+export const endpointFromUrl = (url: string): string => {
+  try {
+    const { pathname } = new URL(url, window.location.origin);
+    return pathname.replace(/\/\d+(?=\/|$)/g, '/:id').replace(/\/by\/username\/[^/]+/, '/by/username/:username');
+  } catch {
+    return url.split('?')[0];
+  }
+};
+
+export const getQuotaUsage = (date = today()): QuotaUsage => {
+  return readHistory()[date] || { date, total: 0, byEndpoint: {} };
+};
+
+export const getQuotaHistory = (): QuotaUsage[] => {
+  return Object.values(readHistory()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const getDailyBudget = (): number => {
+  const stored = parseInt(localStorage.getItem(BUDGET_STORAGE_KEY) || '', 10);
+  if (stored > 0) return stored;
+
+  const fromEnv = parseInt(import.meta.env.VITE_DAILY_CALL_BUDGET || '', 10);
+  return fromEnv > 0 ? fromEnv : DEFAULT_DAILY_BUDGET;
+};
+
+export const setDailyBudget = (budget: number) => {
+  if (budget > 0) {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(Math.round(budget)));
+    notifyQuotaListeners();
+  }
+};
+
+export const getRemainingCalls = (): number => {
+  return Math.max(0, getDailyBudget() - getQuotaUsage().total);
+};
+
+export const isQuotaExhausted = (): boolean => getRemainingCalls() <= 0;
+
+// Count one outbound call against today's budget
+export const recordApiCall = (url: string) => {
+  const history = readHistory();
+  const date = today();
+  const usage = history[date] || { date, total: 0, byEndpoint: {} };
+  const endpoint = endpointFromUrl(url);
+
+  history[date] = {
+    ...usage,
+    total: usage.total + 1,
+    byEndpoint: { ...usage.byEndpoint, [endpoint]: (usage.byEndpoint[endpoint] || 0) + 1 }
+  };
+
+  writeHistory(history);
+  notifyQuotaListeners();
+};
+
+// Returns an unsubscribe function. Also fires when another tab records calls.
+export const subscribeToQuota = (listener: QuotaListener): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === USAGE_STORAGE_KEY || event.key === BUDGET_STORAGE_KEY) {
+      listener();
+    }
+  };
+
+  quotaListeners.add(listener);
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    quotaListeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
+
+// Thrown instead of making a call once the daily budget is used up
+export const createQuotaExhaustedError = (): FetchError =>
+  createFetchError('quota-exhausted', `Daily API budget of ${getDailyBudget()} calls reached`);
+
+export const isQuotaExhaustedError = (error: unknown): boolean => isFetchError(error, 'quota-exhausted');
@@ -0,0 +1,57 @@
+import { Media, Thread, Tweet } from './types';
+
+// Quoted and retweeted tweets in the shape the cards render. Sources fill
+// in a full quoted_tweet and quoted_status when they can and
+// referenced_tweets otherwise, and saved tweets may carry any of them.
+export interface EmbeddedTweet {
+  id: string;
+  text: string;
+  author?: {
+    name: string;
+    username: string;
+    profile_image_url: string;
+  };
+  media?: Media[];
+  created_at?: string;
+}
+
+const fromTweet = (tweet: Tweet): EmbeddedTweet => ({
+  id: tweet.id,
+  text: tweet.full_text || tweet.text || '',
+  author: tweet.author,
+  media: tweet.media,
+  created_at: tweet.created_at,
+});
+
+const findReference = (tweet: Tweet, type: string): EmbeddedTweet | null => {
+  const reference = tweet.referenced_tweets?.find(ref => ref.type === type);
+  // A bare id has nothing to show
+  return reference && (reference.text || reference.media?.length) ? reference : null;
+};
+
+export const getQuotedTweet = (tweet: Tweet): EmbeddedTweet | null => {
+  const quoted = tweet.quoted_tweet || tweet.quoted_status;
+  return quoted ? fromTweet(quoted) : findReference(tweet, 'quoted');
+};
+
+// The original of a retweet, or null for the author's own tweets
+export const getRetweetedTweet = (tweet: Tweet): EmbeddedTweet | null =>
+  tweet.is_retweet ? findReference(tweet, 'retweeted') : null;
+
+const isThread = (item: Tweet | Thread): item is Thread => 'tweets' in item;
+
+// Retweets among `items`, standalone or inside threads
+export const countRetweets = (items: (Tweet | Thread)[]): number =>
+  items.reduce((count, item) =>
+    count + (isThread(item) ? item.tweets.filter(tweet => tweet.is_retweet).length : item.is_retweet ? 1 : 0), 0);
+
+// `items` without retweets. Threads lose their retweets and are dropped if
+// nothing else is left.
+export const withoutRetweets = (items: (Tweet | Thread)[]): (Tweet | Thread)[] =>
+  items.flatMap((item): (Tweet | Thread)[] => {
+    if (!isThread(item)) return item.is_retweet ? [] : [item];
+    if (!item.tweets.some(tweet => tweet.is_retweet)) return [item];
+
+    const tweets = item.tweets.filter(tweet => !tweet.is_retweet);
+    return tweets.length > 0 ? [{ ...item, tweets }] : [];
+  });
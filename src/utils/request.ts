@@ -0,0 +1,274 @@
+import { createAbortError, createFetchError, fetchErrorFromStatus } from './errors';
+import { createQuotaExhaustedError, isQuotaExhausted, recordApiCall } from './quota';
+import { createScheduler, RequestPriority } from './scheduler';
+
+// Rate limiting
+const MIN_API_CALL_INTERVAL = 2000;
+const API_BURST = 2;
+const API_CONCURRENCY = 2;
+const MAX_RETRIES = 2;
+const RETRY_DELAY = 3000;
+const FAILED_REQUEST_EXPIRY = 10 * 60 * 1000;
+// Longest rate-limit reset we wait out. Anything longer is the plan's quota
+// (RapidAPI announces when the monthly or daily allowance renews), which
+// fails fast until then instead of holding every request for hours.
+const MAX_RATE_LIMIT_PAUSE = 2 * 60 * 1000;
+
+// When the API plan's quota renews, if a response said it is used up
+let planLimitedUntil = 0;
+
+const createPlanLimitError = (resetAt: number) =>
+  createFetchError('plan-limit', "The API plan's request quota is used up.", { status: 429, resetAt });
+
+// Requests that failed recently, keyed by URL
+const failedRequests = new Map<string, {
+  timestamp: number,
+  errorCode: number,
+  retryAfter?: number
+}>();
+
+// Every API call, including retries, goes through this limiter
+export const apiScheduler = createScheduler({
+  interval: MIN_API_CALL_INTERVAL,
+  burst: API_BURST,
+  concurrency: API_CONCURRENCY
+});
+
+export interface ApiRequestOptions {
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+  signal?: AbortSignal;
+  priority?: RequestPriority; // Defaults to 'normal'
+}
+
+// Observable request lifecycle, so callers can report progress without
+// threading callbacks through every tweet source. `signal` is the one the
+// request was made with and identifies which fetch it belongs to.
+export type RequestEvent =
+  | { type: 'request'; url: string; signal?: AbortSignal }
+  | { type: 'backoff'; url: string; status: number; attempt: number; maxRetries: number; delayMs: number; signal?: AbortSignal };
+
+type RequestListener = (event: RequestEvent) => void;
+
+const requestListeners = new Set<RequestListener>();
+
+// Returns an unsubscribe function
+export const subscribeToRequests = (listener: RequestListener): (() => void) => {
+  requestListeners.add(listener);
+  return () => {
+    requestListeners.delete(listener);
+  };
+};
+
+const notifyRequestListeners = (event: RequestEvent) => {
+  requestListeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error in request listener:', error);
+    }
+  });
+};
+
+// setTimeout as a promise that rejects as soon as `signal` aborts
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Rate limit reset announced by the provider: RapidAPI sends seconds until
+// the reset, the X API an epoch timestamp in seconds
+const parseRateLimitReset = (xhr: XMLHttpRequest): number | undefined => {
+  const rapidApiReset = Number(xhr.getResponseHeader('x-ratelimit-requests-reset'));
+  if (rapidApiReset > 0) return rapidApiReset * 1000;
+
+  const xApiReset = Number(xhr.getResponseHeader('x-rate-limit-reset'));
+  if (xApiReset > 0) return Math.max(0, xApiReset * 1000 - Date.now());
+
+  return undefined;
+};
+
+const getRecentFailure = (url: string) => {
+  const failedRequest = failedRequests.get(url);
+  if (!failedRequest) return null;
+
+  const now = Date.now();
+  if (now - failedRequest.timestamp > FAILED_REQUEST_EXPIRY) {
+    failedRequests.delete(url);
+    return null;
+  }
+
+  if (failedRequest.retryAfter && now > failedRequest.retryAfter) {
+    failedRequests.delete(url);
+    return null;
+  }
+
+  return failedRequest;
+};
+
+export const hasRecentlyFailed = (url: string): boolean => getRecentFailure(url) !== null;
+
+const recordFailedRequest = (url: string, errorCode: number, retryAfter?: number) => {
+  failedRequests.set(url, {
+    timestamp: Date.now(),
+    errorCode,
+    retryAfter: retryAfter ? Date.now() + retryAfter : undefined
+  });
+
+  // Clean up old failed requests
+  for (const [key, value] of failedRequests.entries()) {
+    if (Date.now() - value.timestamp > FAILED_REQUEST_EXPIRY) {
+      failedRequests.delete(key);
+    }
+  }
+};
+
+// Outcome of a single attempt; rate-limited attempts are retried after
+// their slot in the scheduler has been released
+type AttemptResult =
+  | { data: unknown }
+  | { retryDelay: number };
+
+// API request function with retry logic. Resolves to the parsed JSON body,
+// typed as `T` on the caller's word; validate it where it matters.
+export const makeApiRequest = async <T = unknown>(url: string, options: ApiRequestOptions = {}, retryCount = 0): Promise<T> => {
+  const { signal } = options;
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+
+  // Fail the same way again instead of spending a call on it
+  const recentFailure = getRecentFailure(url);
+  if (recentFailure) {
+    console.warn(`Skipping recently failed request to: ${url}`);
+    throw fetchErrorFromStatus(recentFailure.errorCode, recentFailure.retryAfter);
+  }
+
+  if (isQuotaExhausted()) {
+    throw createQuotaExhaustedError();
+  }
+
+  if (Date.now() < planLimitedUntil) {
+    throw createPlanLimitError(planLimitedUntil);
+  }
+
+  const executeRequest = (): Promise<AttemptResult> => {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    // The budget may have run out while this request waited in the queue
+    if (isQuotaExhausted()) {
+      return Promise.reject(createQuotaExhaustedError());
+    }
+
+    return new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.withCredentials = options.withCredentials ?? true;
+
+        const onAbort = () => xhr.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        xhr.addEventListener('abort', () => reject(createAbortError()));
+
+        xhr.addEventListener('readystatechange', function() {
+          if (this.readyState === this.DONE) {
+            signal?.removeEventListener('abort', onAbort);
+
+            // Aborted requests also reach DONE with status 0; the abort listener handles them
+            if (signal?.aborted) return;
+
+            if (this.status >= 200 && this.status < 300) {
+              try {
+                resolve({ data: JSON.parse(this.responseText) });
+              } catch (error) {
+                reject(createFetchError('malformed-response', `Failed to parse response: ${error}`, { status: this.status }));
+              }
+              return;
+            }
+
+            const retryAfter = this.status === 429
+              ? parseRetryAfter(this.getResponseHeader('Retry-After')) ?? parseRateLimitReset(this)
+              : undefined;
+            if (retryAfter && retryAfter > MAX_RATE_LIMIT_PAUSE) {
+              planLimitedUntil = Date.now() + retryAfter;
+              console.warn(`API plan quota used up until ${new Date(planLimitedUntil).toISOString()}`);
+              reject(createPlanLimitError(planLimitedUntil));
+              return;
+            }
+            if (retryAfter) {
+              // The limit applies to the whole key, so hold every lane
+              apiScheduler.pauseFor(retryAfter);
+            }
+
+            if (this.status === 429 && retryCount < MAX_RETRIES) {
+              const retryDelay = Math.max(retryAfter || 0, RETRY_DELAY * Math.pow(2, retryCount));
+              console.warn(`Rate limited (429). Retrying in ${retryDelay}ms... (Attempt ${retryCount + 1}/${MAX_RETRIES})`);
+              notifyRequestListeners({
+                type: 'backoff',
+                url,
+                status: this.status,
+                attempt: retryCount + 1,
+                maxRetries: MAX_RETRIES,
+                delayMs: retryDelay,
+                signal
+              });
+              resolve({ retryDelay });
+            } else {
+              const resetAfter = retryAfter || 60000;
+              if (this.status === 429) {
+                recordFailedRequest(url, this.status, resetAfter);
+              } else if (this.status !== 0) {
+                // Network failures are not remembered; the connection may come back any moment
+                recordFailedRequest(url, this.status);
+              }
+              reject(fetchErrorFromStatus(this.status, Date.now() + resetAfter));
+            }
+          }
+        });
+
+        recordApiCall(url);
+        notifyRequestListeners({ type: 'request', url, signal });
+        xhr.open('GET', url);
+        Object.entries(options.headers || {}).forEach(([name, value]) => {
+          xhr.setRequestHeader(name, value);
+        });
+        xhr.send(null);
+    });
+  };
+
+  const result = await apiScheduler.schedule(executeRequest, { priority: options.priority, signal });
+  if ('retryDelay' in result) {
+    // Back off outside the scheduler, then queue up again like any other call
+    await delay(result.retryDelay, signal);
+    return makeApiRequest<T>(url, options, retryCount + 1);
+  }
+
+  return result.data as T;
+};
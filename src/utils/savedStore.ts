@@ -0,0 +1,202 @@
+import { backend, SaveTweetsOptions } from './backend';
+import { localStore, savedAtTime } from './localStore';
+import { ApiResponse, DeleteTweetsResult, SavedUser, SaveTweetsResult, Tweet } from './types';
+
+// Where saved tweets live:
+// - remote: only on the backend (the original behaviour)
+// - local: only in this browser's IndexedDB
+// - sync: in IndexedDB, mirrored to the backend. Reads never wait for the
+//   backend; writes are sent on right away when possible and otherwise
+//   caught up by the next sync.
+export type StorageMode = 'local' | 'remote' | 'sync';
+
+export const STORAGE_MODES: StorageMode[] = ['local', 'remote', 'sync'];
+
+const MODE_STORAGE_KEY = 'tweet-manager-storage-mode';
+const LAST_SYNC_STORAGE_KEY = 'tweet-manager-last-sync';
+const DEFAULT_MODE: StorageMode = 'remote';
+
+type StorageModeListener = () => void;
+
+const modeListeners = new Set<StorageModeListener>();
+
+export const getStorageMode = (): StorageMode => {
+  const stored = localStorage.getItem(MODE_STORAGE_KEY) as StorageMode | null;
+  return stored && STORAGE_MODES.includes(stored) ? stored : DEFAULT_MODE;
+};
+
+export const setStorageMode = (mode: StorageMode) => {
+  localStorage.setItem(MODE_STORAGE_KEY, mode);
+  modeListeners.forEach(listener => listener());
+};
+
+// When the last sync finished, or null if this browser never synced
+export const getLastSyncedAt = (): string | null => localStorage.getItem(LAST_SYNC_STORAGE_KEY);
+
+// Returns an unsubscribe function. Also fires when another tab changes the mode.
+export const subscribeToStorageMode = (listener: StorageModeListener): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === MODE_STORAGE_KEY || event.key === LAST_SYNC_STORAGE_KEY) {
+      listener();
+    }
+  };
+
+  modeListeners.add(listener);
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    modeListeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
+
+// In sync mode the backend is only a mirror, so failing to reach it doesn't
+// fail the operation
+const mirror = async (description: string, operation: () => Promise<unknown>) => {
+  try {
+    await operation();
+  } catch (error) {
+    console.warn(`Could not ${description} on the backend, the next sync will retry:`, error);
+  }
+};
+
+// Saved tweet operations for the current storage mode, with the same
+// signatures as the backend client
+export const savedStore = {
+  saveTweets: async (tweets: Tweet[], username: string, options: SaveTweetsOptions = {}): Promise<SaveTweetsResult> => {
+    const mode = getStorageMode();
+    if (mode === 'remote') return backend.saveTweets(tweets, username, options);
+
+    const result = await localStore.saveTweets(tweets, username, options);
+    if (mode === 'sync') {
+      await mirror('save tweets', () => backend.saveTweets(tweets, username, options));
+    }
+    return result;
+  },
+
+  listSavedUsers: (): Promise<SavedUser[]> => {
+    return getStorageMode() === 'remote' ? backend.listSavedUsers() : localStore.listSavedUsers();
+  },
+
+  listSavedTweets: (username?: string): Promise<ApiResponse> => {
+    return getStorageMode() === 'remote' ? backend.listSavedTweets(username) : localStore.listSavedTweets(username);
+  },
+
+  deleteTweets: async (ids: string[]): Promise<DeleteTweetsResult> => {
+    const mode = getStorageMode();
+    if (mode === 'remote') return backend.deleteTweets(ids);
+
+    const result = await localStore.deleteTweets(ids);
+    if (mode === 'sync') {
+      await mirror(`delete ${ids.length} tweets`, async () => {
+        // Tweets the backend kept are deleted again by the next sync
+        const { deleted } = await backend.deleteTweets(ids);
+        await localStore.clearDeletions(deleted);
+      });
+    }
+    return result;
+  },
+
+  deleteUserTweets: async (username: string): Promise<number> => {
+    const mode = getStorageMode();
+    if (mode === 'remote') return backend.deleteUserTweets(username);
+
+    const deletedCount = await localStore.deleteUserTweets(username);
+    if (mode === 'sync') {
+      // Tombstones stay until the next sync; it skips tweets that are already gone
+      await mirror(`delete tweets of ${username}`, () => backend.deleteUserTweets(username));
+    }
+    return deletedCount;
+  },
+};
+
+export interface SyncResult {
+  // Tweets copied from the backend into this browser
+  pulled: number;
+  // Tweets sent from this browser to the backend
+  pushed: number;
+  // Tweets deleted on the backend because they were deleted here
+  deletedRemotely: number;
+  // Tweets deleted here because they were deleted on the backend
+  deletedLocally: number;
+}
+
+const flattenSaved = (response: ApiResponse): Tweet[] =>
+  response.data.flatMap(item => 'tweets' in item ? item.tweets : [item]);
+
+// Reconcile this browser with the backend by tweet id and savedAt:
+// - a tweet on only one side is copied to the other, unless it was deleted
+//   there after it was saved (local tombstones, or gone from the backend
+//   since the last sync)
+// - a tweet on both sides takes whichever copy was saved last
+export const syncSavedTweets = async (): Promise<SyncResult> => {
+  const startedAt = new Date().toISOString();
+  const lastSyncedAt = new Date(getLastSyncedAt() || 0).getTime();
+
+  const [remoteResponse, localTweets, deletions] = await Promise.all([
+    backend.listSavedTweets(),
+    localStore.listAll(),
+    localStore.listDeletions(),
+  ]);
+
+  const remote = new Map(flattenSaved(remoteResponse).map(tweet => [tweet.id, tweet]));
+  const local = new Map(localTweets.map(tweet => [tweet.id, tweet]));
+  const deletedAt = new Map(deletions.map(deletion => [deletion.id, new Date(deletion.deletedAt).getTime()]));
+
+  const toPull: Tweet[] = [];
+  const toPush: Tweet[] = [];
+  const toDeleteRemotely: string[] = [];
+  const toDeleteLocally: string[] = [];
+
+  remote.forEach((remoteTweet, id) => {
+    const localTweet = local.get(id);
+    if (localTweet) {
+      if (savedAtTime(remoteTweet) > savedAtTime(localTweet)) toPull.push(remoteTweet);
+    } else if (deletedAt.has(id) && deletedAt.get(id)! >= savedAtTime(remoteTweet)) {
+      toDeleteRemotely.push(id);
+    } else {
+      toPull.push(remoteTweet);
+    }
+  });
+
+  local.forEach((localTweet, id) => {
+    const remoteTweet = remote.get(id);
+    if (remoteTweet) {
+      if (savedAtTime(localTweet) > savedAtTime(remoteTweet)) toPush.push(localTweet);
+    } else if (savedAtTime(localTweet) <= lastSyncedAt) {
+      // It was on the backend at the last sync, so someone deleted it there
+      toDeleteLocally.push(id);
+    } else {
+      toPush.push(localTweet);
+    }
+  });
+
+  await localStore.putTweets(toPull);
+  await localStore.removeTweets(toDeleteLocally);
+
+  // The backend stores tweets per saving user
+  const pushGroups = new Map<string, Tweet[]>();
+  toPush.forEach(tweet => {
+    const username = tweet.savedBy || 'anonymous';
+    pushGroups.set(username, [...(pushGroups.get(username) || []), tweet]);
+  });
+  for (const [username, tweets] of pushGroups) {
+    await backend.saveTweets(tweets, username, { preserveExisting: false, skipDuplicates: false, preserveThreadOrder: true });
+  }
+
+  const remoteDeletes = await backend.deleteTweets(toDeleteRemotely);
+  // Tombstones for tweets the backend no longer has are settled as well;
+  // only failed deletes are kept for the next sync
+  const stillPending = new Set(remoteDeletes.failed.map(failure => failure.id));
+  await localStore.clearDeletions(deletions.map(deletion => deletion.id).filter(id => !stillPending.has(id)));
+
+  localStorage.setItem(LAST_SYNC_STORAGE_KEY, startedAt);
+  modeListeners.forEach(listener => listener());
+
+  return {
+    pulled: toPull.length,
+    pushed: toPush.length,
+    deletedRemotely: remoteDeletes.deleted.length,
+    deletedLocally: toDeleteLocally.length,
+  };
+};
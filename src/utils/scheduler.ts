@@ -0,0 +1,168 @@
+import { createAbortError } from './errors';
+
+// Token-bucket scheduler for outbound API calls. Tokens refill at a fixed
+// interval up to `burst`; each task takes one token and runs once a
+// concurrency slot is free. Queued tasks start in priority order, FIFO
+// within a lane.
+
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+const PRIORITY_ORDER: RequestPriority[] = ['interactive', 'normal', 'background'];
+
+export interface SchedulerOptions {
+  interval: number;    // ms to refill one token
+  burst: number;       // maximum tokens held at once
+  concurrency: number; // maximum tasks in flight
+}
+
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+export interface SchedulerStats {
+  active: number;
+  queued: Record<RequestPriority, number>;
+  pausedUntil: number;
+}
+
+interface Job {
+  start: () => void;
+  cancel: () => void;
+}
+
+export const createScheduler = (initialOptions: SchedulerOptions) => {
+  let options = { ...initialOptions };
+  let tokens = options.burst;
+  let lastRefill = Date.now();
+  let active = 0;
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const lanes: Record<RequestPriority, Job[]> = {
+    interactive: [],
+    normal: [],
+    background: []
+  };
+
+  const refill = () => {
+    const now = Date.now();
+    const earned = (now - lastRefill) / options.interval;
+    if (earned > 0) {
+      tokens = Math.min(options.burst, tokens + earned);
+      lastRefill = now;
+    }
+  };
+
+  const nextJob = (): Job | undefined => {
+    for (const priority of PRIORITY_ORDER) {
+      const job = lanes[priority].shift();
+      if (job) return job;
+    }
+    return undefined;
+  };
+
+  const hasQueuedJobs = () => PRIORITY_ORDER.some(priority => lanes[priority].length > 0);
+
+  // Wake up again once the next token (or the end of a pause) is due
+  const scheduleWakeUp = () => {
+    if (timer || !hasQueuedJobs() || active >= options.concurrency) return;
+
+    const now = Date.now();
+    const untilToken = tokens >= 1 ? 0 : ((1 - tokens) * options.interval);
+    const wait = Math.max(untilToken, pausedUntil - now, 0);
+
+    timer = setTimeout(() => {
+      timer = null;
+      pump();
+    }, wait);
+  };
+
+  const pump = () => {
+    refill();
+
+    while (active < options.concurrency && tokens >= 1 && Date.now() >= pausedUntil) {
+      const job = nextJob();
+      if (!job) break;
+
+      tokens -= 1;
+      job.start();
+    }
+
+    scheduleWakeUp();
+  };
+
+  const schedule = <T>(task: () => Promise<T>, scheduleOptions: ScheduleOptions = {}): Promise<T> => {
+    const { priority = 'normal', signal } = scheduleOptions;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      const lane = lanes[priority];
+
+      // Cancelled while waiting: leave the queue without using a token
+      const onAbort = () => {
+        const index = lane.indexOf(job);
+        if (index !== -1) {
+          lane.splice(index, 1);
+          job.cancel();
+        }
+      };
+
+      const job: Job = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          active++;
+
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              active--;
+              pump();
+            });
+        },
+        cancel: () => {
+          reject(createAbortError());
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      lane.push(job);
+      pump();
+    });
+  };
+
+  // Hold every lane, e.g. when the API answers with Retry-After
+  const pauseFor = (ms: number) => {
+    pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    scheduleWakeUp();
+  };
+
+  const configure = (updates: Partial<SchedulerOptions>) => {
+    refill();
+    options = { ...options, ...updates };
+    tokens = Math.min(tokens, options.burst);
+    pump();
+  };
+
+  const getStats = (): SchedulerStats => ({
+    active,
+    queued: {
+      interactive: lanes.interactive.length,
+      normal: lanes.normal.length,
+      background: lanes.background.length
+    },
+    pausedUntil
+  });
+
+  return { schedule, pauseFor, configure, getStats };
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
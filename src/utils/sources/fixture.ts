@@ -0,0 +1,84 @@
+import { Tweet, TweetPage, TweetSource, TweetSourceUser } from '../types';
+import { createAbortError } from '../errors';
+
+// Canned data for offline development and tests, already in our Tweet shape
+export interface TweetFixtures {
+  users: TweetSourceUser[];
+  timelines: Record<string, Tweet[]>; // keyed by lowercase username, newest first
+  replies?: Record<string, Tweet[]>;  // keyed by the tweet being replied to
+  continuations?: Record<string, Tweet>;
+  pageSize?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Cursors are plain offsets into the fixture arrays
+const paginate = (tweets: Tweet[], limit: number, cursor?: string): TweetPage => {
+  const start = cursor ? parseInt(cursor, 10) || 0 : 0;
+  const end = start + limit;
+
+  return {
+    tweets: tweets.slice(start, end),
+    cursor: end < tweets.length ? String(end) : null,
+  };
+};
+
+// Accepts the fixtures themselves or a URL to a JSON file containing them
+export const createFixtureSource = (fixtures: TweetFixtures | string): TweetSource => {
+  let loaded: Promise<TweetFixtures> | null = null;
+
+  const load = (signal?: AbortSignal): Promise<TweetFixtures> => {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    if (!loaded) {
+      loaded = typeof fixtures === 'string'
+        ? fetch(fixtures).then(response => {
+            if (!response.ok) {
+              throw new Error(`Failed to load tweet fixtures from ${fixtures}: ${response.status}`);
+            }
+            return response.json();
+          })
+        : Promise.resolve(fixtures);
+    }
+    return loaded;
+  };
+
+  const findTweet = (data: TweetFixtures, tweetId: string): Tweet | null => {
+    const allTweets = [
+      ...Object.values(data.timelines).flat(),
+      ...Object.values(data.replies || {}).flat(),
+    ];
+    return allTweets.find(tweet => tweet.id === tweetId) || null;
+  };
+
+  return {
+    name: 'fixture',
+
+    getUser: async (username, signal) => {
+      const data = await load(signal);
+      return data.users.find(user => user.username.toLowerCase() === username.toLowerCase()) || null;
+    },
+
+    getUserTweets: async (user, { limit, cursor }, signal) => {
+      const data = await load(signal);
+      const timeline = data.timelines[user.username.toLowerCase()] || [];
+      return paginate(timeline, cursor ? data.pageSize || DEFAULT_PAGE_SIZE : limit, cursor);
+    },
+
+    getReplies: async (tweetId, cursor, signal) => {
+      const data = await load(signal);
+      return paginate(data.replies?.[tweetId] || [], data.pageSize || DEFAULT_PAGE_SIZE, cursor);
+    },
+
+    getTweet: async (tweetId, signal) => {
+      return findTweet(await load(signal), tweetId);
+    },
+
+    getContinuation: async (tweetId, signal) => {
+      const data = await load(signal);
+      return data.continuations?.[tweetId] || null;
+    },
+  };
+};
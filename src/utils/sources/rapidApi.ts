@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { Tweet, TweetSource } from '../types';
+import { makeApiRequest, hasRecentlyFailed } from '../request';
+import { createFetchError } from '../errors';
+import { quarantineRecord } from '../diagnostics';
+import { RequestPriority } from '../scheduler';
+import {
+  RapidApiTweet,
+  rapidApiTweetSchema,
+  repliesResponseSchema,
+  userDetailsResponseSchema,
+  userTweetsResponseSchema
+} from './rapidApiSchemas';
+
+const RAPID_API_HOST = 'twitter154.p.rapidapi.com';
+
+export interface RapidApiSourceOptions {
+  // 'proxy' calls a same-origin endpoint that adds the key server-side,
+  // 'direct' calls RapidAPI from the browser with `apiKey`
+  mode: 'proxy' | 'direct';
+  proxyUrl?: string;
+  apiKey?: string;
+}
+
+// Improved thread detection
+const detectTruncatedText = (text: string): boolean => {
+  if (!text || text.trim().length === 0) return false;
+
+  // Obvious truncation indicators
+  if (text.endsWith('…') || text.endsWith('...')) return true;
+  if (text.includes('… https://') || text.includes('... https://')) return true;
+
+  // Check for abrupt endings
+  const lastWords = text.trim().split(/\s+/).slice(-2);
+  const commonTruncationEnders = ['the', 'a', 'an', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'about', 'like', 'of', 'all'];
+  if (lastWords.length > 0 && commonTruncationEnders.includes(lastWords[lastWords.length - 1].toLowerCase())) {
+    return true;
+  }
+
+  // Check for non-Latin scripts
+  const hasNonLatinScript = /[\u0900-\u097F\u0600-\u06FF\u0590-\u05FF\u0E00-\u0E7F\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF]/.test(text);
+  const thresholdLength = hasNonLatinScript ? 180 : 240;
+
+  if (text.length >= thresholdLength && !/[.!?"]$/.test(text.trim())) {
+      return true;
+  }
+
+  return false;
+};
+
+// An embedded quoted or retweeted status, or undefined if it is missing or
+// doesn't look like a tweet
+const processEmbeddedTweet = (record: unknown, depth: number): Tweet | undefined => {
+  if (!record) return undefined;
+
+  const result = rapidApiTweetSchema.safeParse(record);
+  if (!result.success) {
+    console.warn(`Skipping embedded tweet with invalid fields: ${result.error.issues.map(issue => issue.path.join('.')).join(', ')}`);
+    return undefined;
+  }
+  return processTweet(result.data, depth + 1);
+};
+
+// Short form of an embedded tweet for referenced_tweets
+const toReference = (type: 'quoted' | 'retweeted', tweet: Tweet) => ({
+  type,
+  id: tweet.id,
+  text: tweet.full_text || tweet.text,
+  author: {
+    name: tweet.author.name,
+    username: tweet.author.username,
+    profile_image_url: tweet.author.profile_image_url
+  },
+  media: tweet.media
+});
+
+// Enhanced tweet processing. Quoted and retweeted statuses are expanded one
+// level deep, like the API itself does.
+export const processTweet = (tweet: RapidApiTweet, depth = 0): Tweet => {
+    const textContent = tweet.extended_text || tweet.extended_tweet?.full_text || tweet.full_text || tweet.text || '';
+    const isLikelyTruncated = detectTruncatedText(textContent);
+
+    // Get media URLs efficiently
+    const mediaUrls = [
+      ...(tweet.media_urls || []),
+      ...(tweet.extended_entities?.media?.map(m => m.media_url_https || m.video_info?.variants?.[0]?.url) || []),
+      ...(tweet.entities?.media?.map(m => m.media_url_https || m.video_info?.variants?.[0]?.url) || [])
+    ].filter(Boolean);
+
+    // Process media items at once
+    const processedMedia = mediaUrls.map((url: string, i: number) => ({
+      media_key: `media-${tweet.tweet_id}-${i}`,
+      type: url.includes('.mp4') || url.includes('/video/') ? 'video' as const :
+            url.includes('.gif') ? 'animated_gif' as const : 'photo' as const,
+      url: url,
+      preview_image_url: tweet.extended_entities?.media?.[0]?.media_url_https || url,
+    }));
+
+    // Clean text efficiently
+    const cleanedText = textContent
+      .replace(/\s*https:\/\/t\.co\/\w+$/g, '')
+      .replace(/(\s*[…\.]{3,})$/g, '')
+      .replace(/\n{3,}/g, '\n\n');
+
+    // Better thread and conversation detection
+    const conversation_id = tweet.conversation_id || tweet.in_reply_to_status_id || tweet.tweet_id;
+    const thread_id = tweet.thread_id || conversation_id;
+    const in_reply_to_tweet_id = tweet.in_reply_to_tweet_id || tweet.in_reply_to_status_id;
+
+    // Handle self-thread detection
+    const isSelfThread = !!tweet.in_reply_to_user_id &&
+                       tweet.in_reply_to_user_id === tweet.user.user_id;
+
+    // Only log important conversation information
+    if (in_reply_to_tweet_id && (conversation_id !== tweet.tweet_id) && isSelfThread) {
+      console.log(`Tweet ${tweet.tweet_id} is part of self-thread with conversation ID ${conversation_id}`);
+    }
+
+    const quotedTweet = depth === 0 ? processEmbeddedTweet(tweet.quoted_status, depth) : undefined;
+    const retweetedTweet = depth === 0
+      ? processEmbeddedTweet(tweet.retweet_status || tweet.retweeted_status, depth)
+      : undefined;
+    const referencedTweets = [
+      ...(quotedTweet ? [toReference('quoted', quotedTweet)] : []),
+      ...(retweetedTweet ? [toReference('retweeted', retweetedTweet)] : [])
+    ];
+
+    return {
+      id: tweet.tweet_id,
+      text: tweet.text || '',
+      full_text: cleanedText,
+      created_at: tweet.creation_date,
+      author: {
+        id: tweet.user.user_id,
+        name: tweet.user.name,
+        username: tweet.user.username,
+        profile_image_url: tweet.user.profile_pic_url
+      },
+      reply_count: tweet.reply_count || 0,
+      retweet_count: tweet.retweet_count || 0,
+      favorite_count: tweet.favorite_count || 0,
+      quote_count: tweet.quote_count || 0,
+      media: processedMedia,
+      conversation_id,
+      in_reply_to_user_id: tweet.in_reply_to_user_id,
+      in_reply_to_tweet_id,
+      is_long: textContent.length > 280 || isLikelyTruncated,
+      thread_id,
+      is_self_thread: isSelfThread,
+      is_retweet: !!tweet.retweet || !!retweetedTweet,
+      quoted_tweet: quotedTweet,
+      quoted_status: quotedTweet,
+      referenced_tweets: referencedTweets.length > 0 ? referencedTweets : undefined,
+    };
+};
+
+// Endpoint without ids or query, for grouping diagnostics
+const endpointOf = (path: string) => path.split('?')[0];
+
+// A response that doesn't have the expected shape at all fails the request
+const parseResponse = <T extends z.ZodTypeAny>(schema: T, data: unknown, path: string): z.infer<T> => {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  quarantineRecord('rapidapi', endpointOf(path), data, result.error);
+  throw createFetchError('malformed-response', `Unexpected response from ${endpointOf(path)}`);
+};
+
+// Tweets are checked one at a time; invalid ones are quarantined and left
+// out so the rest of the page still comes through
+const parseTweets = (records: unknown[] | null | undefined, path: string): Tweet[] => {
+  return (records || []).flatMap(record => {
+    const result = rapidApiTweetSchema.safeParse(record);
+    if (result.success) return [processTweet(result.data)];
+
+    quarantineRecord('rapidapi', endpointOf(path), record, result.error);
+    return [];
+  });
+};
+
+// twitter154 provider: timelines in `results`, replies in `replies`,
+// pagination through `continuation_token`
+export const createRapidApiSource = (options: RapidApiSourceOptions): TweetSource => {
+  const baseUrl = options.mode === 'proxy'
+    ? (options.proxyUrl || '/api/twitter').replace(/\/$/, '')
+    : `https://${RAPID_API_HOST}`;
+
+  // Only direct mode ever puts the key into a request from the browser
+  const headers: Record<string, string> = options.mode === 'direct'
+    ? { 'x-rapidapi-key': options.apiKey || '', 'x-rapidapi-host': RAPID_API_HOST }
+    : {};
+
+  // Reply crawls run in the background; single-tweet lookups are user-initiated
+  const rapidApiRequest = (path: string, signal?: AbortSignal, priority?: RequestPriority): Promise<unknown> => {
+    return makeApiRequest(`${baseUrl}${path}`, { headers, signal, priority });
+  };
+
+  return {
+    name: 'rapidapi',
+
+    getUser: async (username, signal) => {
+      const path = `/user/details?username=${username}`;
+      const userData = await rapidApiRequest(path, signal);
+      const fields: Record<string, unknown> = userData && typeof userData === 'object' ? userData as Record<string, unknown> : {};
+
+      // Suspended accounts come back as an error message instead of a user
+      const message = fields.detail || fields.message || fields.error;
+      if (typeof message === 'string' && /suspended/i.test(message)) {
+        throw createFetchError('suspended', `@${username} has been suspended.`, { username });
+      }
+
+      if (!fields.user_id) return null;
+
+      const details = parseResponse(userDetailsResponseSchema, userData, path);
+      return {
+        id: details.user_id,
+        username: details.username || username,
+        name: details.name,
+        profile_image_url: details.profile_pic_url,
+        protected: !!(details.is_private || details.protected),
+      };
+    },
+
+    getUserTweets: async (user, { limit, cursor }, signal) => {
+      const path = cursor
+        ? `/user/tweets/continuation?username=${user.username}&continuation_token=${cursor}&user_id=${user.id}`
+        : `/user/tweets?username=${user.username}&limit=${limit}&user_id=${user.id}&include_replies=false&include_pinned=false&includeFulltext=true`;
+      const data = parseResponse(userTweetsResponseSchema, await rapidApiRequest(path, signal), path);
+
+      return {
+        tweets: parseTweets(data.results, path),
+        cursor: data.continuation_token || null,
+      };
+    },
+
+    getReplies: async (tweetId, cursor, signal) => {
+      const path = cursor
+        ? `/tweet/replies/continuation?tweet_id=${tweetId}&continuation_token=${encodeURIComponent(cursor)}`
+        : `/tweet/replies?tweet_id=${tweetId}`;
+      const data = parseResponse(repliesResponseSchema, await rapidApiRequest(path, signal, 'background'), path);
+
+      return {
+        tweets: parseTweets(data.replies, path),
+        cursor: data.continuation_token || null,
+      };
+    },
+
+    getTweet: async (tweetId, signal, priority = 'interactive') => {
+      const path = `/tweet/details?tweet_id=${tweetId}`;
+      if (hasRecentlyFailed(`${baseUrl}${path}`)) return null;
+
+      const data = await rapidApiRequest(path, signal, priority);
+      return data ? parseTweets([data], path)[0] || null : null;
+    },
+
+    getContinuation: async (tweetId, signal) => {
+      const path = `/tweet/continuation?tweet_id=${tweetId}`;
+      if (hasRecentlyFailed(`${baseUrl}${path}`)) return null;
+
+      const data = await rapidApiRequest(path, signal, 'interactive');
+      return data ? parseTweets([data], path)[0] || null : null;
+    },
+  };
+};
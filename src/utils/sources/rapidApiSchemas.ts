@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+// Shapes of the twitter154 responses we rely on. Only fields processTweet
+// reads are checked; everything else passes through untouched.
+
+// Ids arrive as strings, but older payloads used numbers
+const idSchema = z.union([z.string().min(1), z.number()]).transform(String);
+
+const mediaEntitySchema = z.object({
+  media_url_https: z.string().nullish(),
+  video_info: z.object({
+    variants: z.array(z.object({ url: z.string() }).passthrough()).nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+const entitiesSchema = z.object({
+  media: z.array(mediaEntitySchema).nullish(),
+}).passthrough();
+
+export const rapidApiUserSchema = z.object({
+  user_id: idSchema,
+  username: z.string().min(1),
+  name: z.string().nullish(),
+  profile_pic_url: z.string().nullish(),
+}).passthrough();
+
+export const rapidApiTweetSchema = z.object({
+  tweet_id: idSchema,
+  creation_date: z.string().min(1),
+  text: z.string().nullish(),
+  full_text: z.string().nullish(),
+  extended_text: z.string().nullish(),
+  extended_tweet: z.object({ full_text: z.string().nullish() }).passthrough().nullish(),
+  user: rapidApiUserSchema,
+  media_urls: z.array(z.string()).nullish(),
+  extended_entities: entitiesSchema.nullish(),
+  entities: entitiesSchema.nullish(),
+  reply_count: z.number().nullish(),
+  retweet_count: z.number().nullish(),
+  favorite_count: z.number().nullish(),
+  quote_count: z.number().nullish(),
+  conversation_id: idSchema.nullish(),
+  thread_id: idSchema.nullish(),
+  in_reply_to_status_id: idSchema.nullish(),
+  in_reply_to_tweet_id: idSchema.nullish(),
+  in_reply_to_user_id: idSchema.nullish(),
+  // Embedded tweets are checked on their own when processed, so a bad quote
+  // doesn't cost the tweet around it
+  quoted_status: z.unknown().nullish(),
+  retweet_status: z.unknown().nullish(),
+  retweeted_status: z.unknown().nullish(),
+  retweet: z.boolean().nullish(),
+}).passthrough();
+
+export type RapidApiTweet = z.infer<typeof rapidApiTweetSchema>;
+
+// /user/details
+export const userDetailsResponseSchema = z.object({
+  user_id: idSchema,
+  username: z.string().nullish(),
+  name: z.string().nullish(),
+  profile_pic_url: z.string().nullish(),
+  is_private: z.boolean().nullish(),
+  protected: z.boolean().nullish(),
+}).passthrough();
+
+// Tweets are validated one by one (see parseTweets), so the envelopes only
+// check that the lists are lists
+const recordsSchema = z.array(z.unknown()).nullish();
+
+// /user/tweets and /user/tweets/continuation
+export const userTweetsResponseSchema = z.object({
+  results: recordsSchema,
+  continuation_token: z.string().nullish(),
+}).passthrough();
+
+// /tweet/replies and /tweet/replies/continuation
+export const repliesResponseSchema = z.object({
+  replies: recordsSchema,
+  continuation_token: z.string().nullish(),
+}).passthrough();
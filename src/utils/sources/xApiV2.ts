@@ -0,0 +1,195 @@
+import { Media, Tweet, TweetSource, TwitterApiMedia, TwitterApiTweet, TwitterResponse, TwitterUser } from '../types';
+import { makeApiRequest } from '../request';
+import { createFetchError } from '../errors';
+import { RequestPriority } from '../scheduler';
+
+// Same-origin proxy that forwards to https://api.twitter.com/2 and adds the
+// bearer token server-side (netlify/functions/x-api-proxy.mjs, or the dev
+// server proxy in vite.config.ts)
+const X_API_PROXY_URL = '/api/x';
+
+// Fields we need to build complete Tweet objects out of a single response
+const TWEET_QUERY = [
+  'tweet.fields=created_at,author_id,conversation_id,in_reply_to_user_id,referenced_tweets,attachments,public_metrics,note_tweet',
+  'expansions=author_id,attachments.media_keys,referenced_tweets.id,referenced_tweets.id.author_id',
+  'media.fields=media_key,type,url,preview_image_url,alt_text,duration_ms,width,height,variants',
+  'user.fields=name,username,profile_image_url',
+].join('&');
+
+// Videos and GIFs have no `url`, only encoded variants: pick the best mp4
+const resolveMediaUrl = (media: TwitterApiMedia): string => {
+  if (media.url) return media.url;
+
+  const mp4s = (media.variants || [])
+    .filter(variant => variant.content_type === 'video/mp4')
+    .sort((a, b) => (b.bit_rate || 0) - (a.bit_rate || 0));
+
+  return mp4s[0]?.url || media.preview_image_url || '';
+};
+
+// Turn a v2 response into Tweets, looking authors, media and referenced
+// tweets up in `includes`
+export const resolveTwitterResponse = (response: TwitterResponse<TwitterApiTweet[]>): Tweet[] => {
+  const users = new Map<string, TwitterUser>();
+  const media = new Map<string, Media>();
+  const includedTweets = new Map<string, TwitterApiTweet>();
+
+  response.includes?.users?.forEach(user => users.set(user.id, user));
+  response.includes?.media?.forEach(item => media.set(item.media_key, {
+    media_key: item.media_key,
+    type: item.type,
+    url: resolveMediaUrl(item),
+    preview_image_url: item.preview_image_url,
+    alt_text: item.alt_text,
+    duration_ms: item.duration_ms,
+    width: item.width,
+    height: item.height,
+  }));
+  response.includes?.tweets?.forEach(tweet => includedTweets.set(tweet.id, tweet));
+
+  // Undefined when the author isn't in `includes`; such tweets are skipped,
+  // since everything downstream relies on the author's username
+  const getAuthor = (authorId?: string) => {
+    const user = authorId ? users.get(authorId) : undefined;
+    if (!user?.username) return undefined;
+    return {
+      id: authorId,
+      name: user.name,
+      username: user.username,
+      profile_image_url: user.profile_image_url,
+    };
+  };
+
+  const getMedia = (tweet: TwitterApiTweet): Media[] =>
+    (tweet.attachments?.media_keys || [])
+      .map(key => media.get(key))
+      .filter((item): item is Media => !!item);
+
+  const convert = (tweet: TwitterApiTweet, depth = 0): Tweet | null => {
+    const author = getAuthor(tweet.author_id);
+    if (!author) {
+      console.warn(`Skipping tweet ${tweet.id}: author ${tweet.author_id} is missing from the response`);
+      return null;
+    }
+
+    const fullText = tweet.note_tweet?.text || tweet.text || '';
+    const repliedTo = tweet.referenced_tweets?.find(ref => ref.type === 'replied_to');
+    const quoted = tweet.referenced_tweets?.find(ref => ref.type === 'quoted');
+    const quotedTweet = quoted && includedTweets.get(quoted.id);
+    // Only one level of quoting is ever expanded by the API
+    const quotedStatus = quotedTweet && depth === 0 ? convert(quotedTweet, depth + 1) || undefined : undefined;
+    const conversationId = tweet.conversation_id || tweet.id;
+
+    return {
+      id: tweet.id,
+      text: tweet.text || '',
+      full_text: fullText,
+      created_at: tweet.created_at,
+      author,
+      reply_count: tweet.public_metrics?.reply_count || 0,
+      retweet_count: tweet.public_metrics?.retweet_count || 0,
+      favorite_count: tweet.public_metrics?.like_count || 0,
+      quote_count: tweet.public_metrics?.quote_count || 0,
+      media: getMedia(tweet),
+      conversation_id: conversationId,
+      thread_id: conversationId,
+      in_reply_to_user_id: tweet.in_reply_to_user_id,
+      in_reply_to_tweet_id: repliedTo?.id,
+      is_reply: !!repliedTo,
+      is_self_thread: !!tweet.in_reply_to_user_id && tweet.in_reply_to_user_id === tweet.author_id,
+      is_retweet: tweet.referenced_tweets?.some(ref => ref.type === 'retweeted') || false,
+      is_long: fullText.length > 280,
+      quoted_tweet: quotedStatus,
+      quoted_status: quotedStatus,
+      referenced_tweets: tweet.referenced_tweets?.map(ref => {
+        const referenced = includedTweets.get(ref.id);
+        const author = referenced ? getAuthor(referenced.author_id) : undefined;
+        return {
+          type: ref.type,
+          id: ref.id,
+          text: referenced?.note_tweet?.text || referenced?.text || '',
+          author: author ? {
+            name: author.name,
+            username: author.username,
+            profile_image_url: author.profile_image_url,
+          } : undefined,
+          media: referenced ? getMedia(referenced) : undefined,
+        };
+      }),
+    };
+  };
+
+  return (response.data || []).flatMap(tweet => convert(tweet) || []);
+};
+
+// Official X API v2 provider, reached through a same-origin proxy that
+// authenticates with the app bearer token. Pagination uses `meta.next_token`.
+export const createXApiV2Source = (proxyUrl?: string): TweetSource => {
+  const baseUrl = (proxyUrl || X_API_PROXY_URL).replace(/\/$/, '');
+
+  const xApiRequest = <T>(path: string, signal?: AbortSignal, priority?: RequestPriority): Promise<T> => {
+    return makeApiRequest<T>(`${baseUrl}${path}`, { signal, priority });
+  };
+
+  const getSingleTweet = async (
+    tweetId: string,
+    signal?: AbortSignal,
+    priority: RequestPriority = 'interactive'
+  ): Promise<Tweet | null> => {
+    const response = await xApiRequest<TwitterResponse<TwitterApiTweet>>(`/tweets/${tweetId}?${TWEET_QUERY}`, signal, priority);
+    if (!response?.data) return null;
+
+    return resolveTwitterResponse({ ...response, data: [response.data] })[0] || null;
+  };
+
+  return {
+    name: 'x-v2',
+
+    getUser: async (username, signal) => {
+      const response = await xApiRequest<TwitterResponse<TwitterUser>>(`/users/by/username/${username}?user.fields=profile_image_url,protected`, signal);
+
+      // Lookups of suspended accounts succeed with only an error entry
+      if (response?.errors?.some(error => /suspended/i.test(error.detail || ''))) {
+        throw createFetchError('suspended', `@${username} has been suspended.`, { username });
+      }
+
+      if (!response?.data?.id) return null;
+
+      return {
+        id: response.data.id,
+        username: response.data.username,
+        name: response.data.name,
+        profile_image_url: response.data.profile_image_url,
+        protected: response.data.protected,
+      };
+    },
+
+    getUserTweets: async (user, { limit, cursor }, signal) => {
+      // The timeline endpoint accepts 5-100 results per page
+      const maxResults = Math.min(Math.max(limit, 5), 100);
+      const page = cursor ? `&pagination_token=${encodeURIComponent(cursor)}` : '';
+      const response = await xApiRequest<TwitterResponse>(`/users/${user.id}/tweets?max_results=${maxResults}&exclude=replies&${TWEET_QUERY}${page}`, signal);
+
+      return {
+        tweets: resolveTwitterResponse(response),
+        cursor: response?.meta?.next_token || null,
+      };
+    },
+
+    // The whole conversation, which is where self-thread replies live
+    getReplies: async (tweetId, cursor, signal) => {
+      const page = cursor ? `&next_token=${encodeURIComponent(cursor)}` : '';
+      const response = await xApiRequest<TwitterResponse>(`/tweets/search/recent?query=${encodeURIComponent(`conversation_id:${tweetId}`)}&max_results=100&${TWEET_QUERY}${page}`, signal, 'background');
+
+      return {
+        tweets: resolveTwitterResponse(response),
+        cursor: response?.meta?.next_token || null,
+      };
+    },
+
+    getTweet: getSingleTweet,
+
+    // v2 returns long-form text in `note_tweet`, so the tweet itself is the continuation
+    getContinuation: getSingleTweet,
+  };
+};
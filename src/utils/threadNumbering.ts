@@ -0,0 +1,104 @@
+import { Tweet } from './types';
+
+// Numbering markers authors put in their threads: "1/", "2/12", "(3/12)",
+// "4/n" at the start or end of a tweet, and a 🧵 opening the first one.
+// Used to order tweets whose timestamps tie and to tell whether a thread
+// has every tweet its author announced.
+
+export interface ThreadNumber {
+  // 1-based position the author gave the tweet
+  index: number;
+  // Declared length of the thread, for "2/12" but not "2/" or "2/n"
+  total?: number;
+}
+
+export type ThreadCompleteness = 'complete' | 'incomplete' | 'unknown';
+
+export interface ThreadNumbering {
+  status: ThreadCompleteness;
+  // Largest declared total, if any tweet has one
+  declaredTotal?: number;
+  // Distinct positions within the declared total that we have
+  found: number;
+  // Positions within the declared total that we don't have
+  missing: number[];
+}
+
+const THREAD_EMOJI = '\u{1F9F5}';
+// Caps keep dates, scores and prices from passing as markers
+const MAX_THREAD_LENGTH = 200;
+
+// "2/12" and friends, in brackets or not. The total is optional ("2/") or
+// "n"; a following "/" or digit means it was a date like 1/2/2024.
+const MARKER = '[(\\[]?(\\d{1,3})\\s*\\/\\s*(\\d{1,3}|n)?[)\\]]?';
+const LEADING_MARKER = new RegExp(`^(?:${THREAD_EMOJI}\\s*)?${MARKER}(?=[\\s.:,]|$)`, 'iu');
+const TRAILING_MARKER = new RegExp(`(?:^|\\s)${MARKER}\\s*(?:${THREAD_EMOJI}\\s*)?$`, 'iu');
+// Media and quote links trail the text and would hide a trailing marker
+const TRAILING_LINKS = /(?:\s*https?:\/\/\S+)+\s*$/;
+
+const toThreadNumber = (match: RegExpMatchArray | null): ThreadNumber | null => {
+  if (!match) return null;
+
+  const index = parseInt(match[1], 10);
+  const total = match[2] && match[2].toLowerCase() !== 'n' ? parseInt(match[2], 10) : undefined;
+  if (index < 1 || index > MAX_THREAD_LENGTH) return null;
+  // "24/7" is not a thread position
+  if (total !== undefined && (index > total || total > MAX_THREAD_LENGTH)) return null;
+
+  return total !== undefined ? { index, total } : { index };
+};
+
+// The position a tweet's text declares, or null if it has no marker
+export const parseThreadNumber = (text: string): ThreadNumber | null => {
+  const trimmed = (text || '').replace(TRAILING_LINKS, '').trim();
+  if (!trimmed) return null;
+
+  const number = toThreadNumber(trimmed.match(LEADING_MARKER)) || toThreadNumber(trimmed.match(TRAILING_MARKER));
+  if (number) return number;
+
+  // A thread emoji without a number usually opens the thread
+  return trimmed.includes(THREAD_EMOJI) ? { index: 1 } : null;
+};
+
+export const getThreadNumber = (tweet: Tweet): ThreadNumber | null =>
+  parseThreadNumber(tweet.full_text || tweet.text || '');
+
+// Orders two tweets by their markers; 0 when either one has none
+export const compareThreadNumbers = (a: Tweet, b: Tweet): number => {
+  const numberA = getThreadNumber(a);
+  const numberB = getThreadNumber(b);
+  return numberA && numberB ? numberA.index - numberB.index : 0;
+};
+
+// Compare the positions present in `tweets` with the total the author
+// declared. Threads without a declared total are 'unknown'.
+export const checkThreadNumbering = (tweets: Tweet[]): ThreadNumbering => {
+  const indexes = new Set<number>();
+  let declaredTotal: number | undefined;
+
+  tweets.forEach(tweet => {
+    const number = getThreadNumber(tweet);
+    if (!number) return;
+    indexes.add(number.index);
+    if (number.total !== undefined) {
+      // Authors who extend a thread tend to bump the total on later tweets
+      declaredTotal = Math.max(declaredTotal || 0, number.total);
+    }
+  });
+
+  if (declaredTotal === undefined) {
+    return { status: 'unknown', found: indexes.size, missing: [] };
+  }
+
+  const missing: number[] = [];
+  for (let index = 1; index <= declaredTotal; index++) {
+    if (!indexes.has(index)) missing.push(index);
+  }
+
+  return {
+    status: missing.length === 0 ? 'complete' : 'incomplete',
+    declaredTotal,
+    found: declaredTotal - missing.length,
+    missing,
+  };
+};
@@ -0,0 +1,159 @@
+import { Thread, Tweet } from './types';
+import { compareChronological } from './threadTree';
+
+// Thread groupings fixed by hand, per account. Each override is an ordered
+// list of tweet ids that groupThreads keeps together in that order, whatever
+// the heuristics say; an override with a single tweet keeps it standalone.
+// A tweet belongs to at most one override, so every edit replaces the
+// overrides it touches.
+
+const OVERRIDES_STORAGE_KEY = 'tweet-manager-thread-overrides';
+
+export interface ThreadOverride {
+  // Also saved as thread_id, so saved tweets keep the manual grouping
+  id: string;
+  tweetIds: string[];
+  // Shared by the overrides one edit created, e.g. both halves of a split,
+  // so resetting one resets them all
+  editId: string;
+  updatedAt: string;
+}
+
+type OverridesByAccount = Record<string, ThreadOverride[]>;
+
+type OverridesListener = () => void;
+
+const overridesListeners = new Set<OverridesListener>();
+
+const accountKey = (username: string) => username.toLowerCase();
+
+const readOverrides = (): OverridesByAccount => {
+  try {
+    const stored = localStorage.getItem(OVERRIDES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading thread overrides:', error);
+    return {};
+  }
+};
+
+const writeOverrides = (overrides: OverridesByAccount) => {
+  try {
+    localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error('Error saving thread overrides:', error);
+  }
+  overridesListeners.forEach(listener => listener());
+};
+
+const EMPTY_OVERRIDES: ThreadOverride[] = [];
+
+export const getThreadOverrides = (username: string): ThreadOverride[] =>
+  readOverrides()[accountKey(username)] || EMPTY_OVERRIDES;
+
+// Take `groups` out of whatever overrides held their tweets, then add them
+const replaceGroups = (username: string, groups: string[][]) => {
+  const all = readOverrides();
+  const claimed = new Set(groups.flat());
+  const updatedAt = new Date().toISOString();
+  const editId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  const kept = (all[accountKey(username)] || [])
+    .map(override => ({ ...override, tweetIds: override.tweetIds.filter(id => !claimed.has(id)) }))
+    .filter(override => override.tweetIds.length > 0);
+  const added = groups
+    .filter(tweetIds => tweetIds.length > 0)
+    .map(tweetIds => ({ id: `manual-${tweetIds[0]}`, tweetIds, editId, updatedAt }));
+
+  all[accountKey(username)] = [...kept, ...added];
+  writeOverrides(all);
+};
+
+// Put `tweets` together in one thread, oldest first
+export const mergeIntoThread = (username: string, tweets: Tweet[]) => {
+  const tweetIds = [...tweets].sort(compareChronological).map(tweet => tweet.id);
+  replaceGroups(username, [tweetIds]);
+};
+
+// Cut `thread` in two, the second part starting at `tweetId`
+export const splitThread = (username: string, thread: Thread, tweetId: string) => {
+  const tweetIds = thread.tweets.map(tweet => tweet.id);
+  const index = tweetIds.indexOf(tweetId);
+  if (index <= 0) return;
+
+  replaceGroups(username, [tweetIds.slice(0, index), tweetIds.slice(index)]);
+};
+
+// Keep `thread` in the order of `tweetIds`. The override keeps its id, so a
+// thread saved earlier is updated in place when saved again.
+export const reorderThread = (username: string, thread: Thread, tweetIds: string[]) => {
+  const all = readOverrides();
+  const overrides = all[accountKey(username)] || [];
+  const existing = overrides.find(override => override.id === thread.id);
+  if (!existing) {
+    replaceGroups(username, [tweetIds]);
+    return;
+  }
+
+  all[accountKey(username)] = overrides.map(override =>
+    override === existing ? { ...override, tweetIds, updatedAt: new Date().toISOString() } : override
+  );
+  writeOverrides(all);
+};
+
+// Drop every override holding a tweet of `thread`, along with the rest of
+// the edits that created them, handing their tweets back to the heuristics
+export const resetThread = (username: string, thread: Thread) => {
+  const all = readOverrides();
+  const overrides = all[accountKey(username)] || [];
+  const tweetIds = new Set(thread.tweets.map(tweet => tweet.id));
+  const editIds = new Set(overrides
+    .filter(override => override.tweetIds.some(id => tweetIds.has(id)))
+    .map(override => override.editId));
+
+  all[accountKey(username)] = overrides.filter(override => !editIds.has(override.editId));
+  writeOverrides(all);
+};
+
+// Split `tweets` into the manual threads of `overrides`, in override order,
+// and the tweets left for the heuristics. Overrides whose tweets aren't
+// loaded are skipped.
+export const applyThreadOverrides = (
+  tweets: Tweet[],
+  overrides: ThreadOverride[]
+): { manual: { id: string; tweets: Tweet[] }[]; rest: Tweet[] } => {
+  if (overrides.length === 0) return { manual: [], rest: tweets };
+
+  const byId = new Map(tweets.map(tweet => [tweet.id, tweet]));
+  const claimed = new Set<string>();
+  const manual = overrides
+    .map(override => {
+      const members = override.tweetIds
+        .filter(id => byId.has(id) && !claimed.has(id))
+        .map(id => {
+          claimed.add(id);
+          return byId.get(id)!;
+        });
+      return { id: override.id, tweets: members };
+    })
+    .filter(group => group.tweets.length > 0);
+
+  return { manual, rest: tweets.filter(tweet => !claimed.has(tweet.id)) };
+};
+
+// Returns an unsubscribe function. Also fires when another tab edits a thread.
+export const subscribeToThreadOverrides = (listener: OverridesListener): (() => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === OVERRIDES_STORAGE_KEY) {
+      listener();
+    }
+  };
+
+  overridesListeners.add(listener);
+  window.addEventListener('storage', onStorage);
+
+  return () => {
+    overridesListeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+};
@@ -0,0 +1,265 @@
+import { Tweet } from './types';
+import { compareThreadNumbers } from './threadNumbering';
+
+// Reply trees for threads. A tweet hangs under the tweet it replies to when
+// that tweet is in the same set, so an author answering the same tweet
+// twice gives two branches instead of an arbitrary order. Everything here is
+// iterative and map based: no depth limit and roughly linear in the number
+// of tweets.
+
+export interface ThreadNode {
+  tweet: Tweet;
+  // Direct replies, oldest first
+  children: ThreadNode[];
+  // 0 for roots
+  depth: number;
+}
+
+// A group of tweets that belong together, with its reply forest
+export interface ReplyThread {
+  id: string;
+  roots: ThreadNode[];
+  // Depth-first order: each tweet is followed by its replies, oldest branch first
+  tweets: Tweet[];
+}
+
+// Tweet ids grow over time, so they order tweets whose dates can't be read.
+// Compared as strings to stay exact beyond Number precision.
+const compareIds = (a: string, b: string) => a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+
+// Oldest first. Tweets posted in the same second (or without a readable
+// date) go by the author's own numbering ("2/12"), then by id.
+export const compareChronological = (a: Tweet, b: Tweet) => {
+  const diff = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  if (!isNaN(diff) && diff !== 0) return diff;
+  return compareThreadNumbers(a, b) || compareIds(a.id, b.id);
+};
+
+// Build the reply forest of `tweets`. Tweets whose parent isn't in the set
+// are roots; roots and siblings are sorted oldest first. Reply cycles (bad
+// data) are broken by treating the oldest tweet of a cycle as a root.
+export const buildReplyForest = (tweets: Tweet[]): ThreadNode[] => {
+  const nodes = new Map<string, ThreadNode>();
+  tweets.forEach(tweet => {
+    if (!nodes.has(tweet.id)) nodes.set(tweet.id, { tweet, children: [], depth: 0 });
+  });
+
+  const roots: ThreadNode[] = [];
+  nodes.forEach(node => {
+    const parentId = node.tweet.in_reply_to_tweet_id;
+    const parent = parentId && parentId !== node.tweet.id ? nodes.get(parentId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  // Walk from the roots; whatever isn't reached sits on a cycle
+  const reached = new Set<string>();
+  const walk = (starts: ThreadNode[]) => {
+    const stack = [...starts];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (reached.has(node.tweet.id)) continue;
+      reached.add(node.tweet.id);
+      node.children.forEach(child => {
+        child.depth = node.depth + 1;
+        stack.push(child);
+      });
+    }
+  };
+  walk(roots);
+
+  if (reached.size < nodes.size) {
+    const unreached = Array.from(nodes.values())
+      .filter(node => !reached.has(node.tweet.id))
+      .sort((a, b) => compareChronological(a.tweet, b.tweet));
+
+    for (const node of unreached) {
+      if (reached.has(node.tweet.id)) continue;
+      // Detach it from its parent so the cycle is cut here
+      const parent = nodes.get(node.tweet.in_reply_to_tweet_id!);
+      if (parent) parent.children = parent.children.filter(child => child !== node);
+      node.depth = 0;
+      roots.push(node);
+      walk([node]);
+    }
+  }
+
+  const byTweet = (a: ThreadNode, b: ThreadNode) => compareChronological(a.tweet, b.tweet);
+  nodes.forEach(node => node.children.sort(byTweet));
+  return roots.sort(byTweet);
+};
+
+// Depth-first, each node followed by its replies
+export const walkForest = (roots: ThreadNode[]): ThreadNode[] => {
+  const result: ThreadNode[] = [];
+  const stack = [...roots].reverse();
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    result.push(node);
+    for (let i = node.children.length - 1; i >= 0; i--) {
+      stack.push(node.children[i]);
+    }
+  }
+  return result;
+};
+
+export const flattenForest = (roots: ThreadNode[]): Tweet[] => walkForest(roots).map(node => node.tweet);
+
+// Indent level per tweet for display: a reply that continues the chain
+// stays level with its parent, later replies to the same tweet start a
+// branch one level in
+export const branchLevels = (roots: ThreadNode[]): Map<string, number> => {
+  const levels = new Map<string, number>();
+  roots.forEach(root => levels.set(root.tweet.id, 0));
+  walkForest(roots).forEach(node => {
+    const level = levels.get(node.tweet.id) || 0;
+    node.children.forEach((child, index) => levels.set(child.tweet.id, index === 0 ? level : level + 1));
+  });
+  return levels;
+};
+
+// Whether the forest is more than a single chain
+export const isBranching = (roots: ThreadNode[]): boolean =>
+  roots.length > 1 || walkForest(roots).some(node => node.children.length > 1);
+
+// Split tweets into threads. Tweets end up together when one replies to
+// another, or when they share a conversation or thread id (which keeps a
+// thread together when a tweet in the middle is missing). Without
+// conversation mode every tweet is the author's, so replies only join the
+// author's own threads. Threads of one tweet are standalone tweets.
+export const groupReplyThreads = (tweets: Tweet[]): ReplyThread[] => {
+  const byId = new Map(tweets.map(tweet => [tweet.id, tweet]));
+
+  // Union-find over tweet ids
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    let current = id;
+    while (current !== root) {
+      const next = parent.get(current)!;
+      parent.set(current, root);
+      current = next;
+    }
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  };
+
+  byId.forEach((_tweet, id) => parent.set(id, id));
+
+  const firstByKey = new Map<string, string>();
+  byId.forEach((tweet, id) => {
+    const replyTo = tweet.in_reply_to_tweet_id ? byId.get(tweet.in_reply_to_tweet_id) : undefined;
+    if (replyTo) {
+      union(replyTo.id, id);
+    }
+
+    [tweet.conversation_id, tweet.thread_id].forEach(key => {
+      if (!key) return;
+      const first = firstByKey.get(key);
+      if (first) {
+        union(first, id);
+      } else {
+        firstByKey.set(key, id);
+      }
+    });
+  });
+
+  const groups = new Map<string, Tweet[]>();
+  byId.forEach((tweet, id) => {
+    const root = find(id);
+    const members = groups.get(root);
+    if (members) {
+      members.push(tweet);
+    } else {
+      groups.set(root, [tweet]);
+    }
+  });
+
+  return Array.from(groups.values()).map(members => {
+    const roots = buildReplyForest(members);
+    const first = roots[0].tweet;
+    return {
+      id: first.conversation_id || first.thread_id || first.id,
+      roots,
+      tweets: flattenForest(roots),
+    };
+  });
+};
+
+// A reply to the author's own tweet, judged by the reply target's id or handle
+export const isSelfReply = (tweet: Tweet): boolean => {
+  if (!tweet.in_reply_to_tweet_id || tweet.in_reply_to_tweet_id === tweet.id) return false;
+  if (tweet.in_reply_to_user_id && tweet.author?.id) return tweet.in_reply_to_user_id === tweet.author.id;
+  return !!tweet.in_reply_to_screen_name &&
+    tweet.in_reply_to_screen_name.toLowerCase() === tweet.author?.username?.toLowerCase();
+};
+
+// Ids of tweets the author replied to in `tweets` that aren't in the set
+// themselves: the gaps of a thread. Each id is at least one missing tweet.
+export const findMissingParents = (tweets: Tweet[], knownIds?: Set<string>): string[] => {
+  const known = knownIds || new Set(tweets.map(tweet => tweet.id));
+  const missing = new Set<string>();
+  tweets.forEach(tweet => {
+    if (isSelfReply(tweet) && !known.has(tweet.in_reply_to_tweet_id!)) {
+      missing.add(tweet.in_reply_to_tweet_id!);
+    }
+  });
+  return Array.from(missing);
+};
+
+// Replies from a crawl under `rootId`, in any order, minus those more than
+// `maxDepth` replies below the nearest anchor tweet (the root and whatever
+// `isAnchor` accepts). Anchors are always kept; other replies are dropped
+// when the tweets between them and an anchor weren't loaded.
+export const limitReplyDepth = (
+  rootId: string,
+  tweets: Tweet[],
+  isAnchor: (tweet: Tweet) => boolean,
+  maxDepth: number
+): Tweet[] => {
+  const byId = new Map(tweets.map(tweet => [tweet.id, tweet]));
+  const depths = new Map<string, number>([[rootId, 0]]);
+
+  // Walk up to a tweet of known depth, then number the way back down
+  const depthOf = (start: Tweet): number => {
+    const chain: Tweet[] = [];
+    const onChain = new Set<string>();
+    let base = Infinity;
+    let current: Tweet | undefined = start;
+
+    while (current) {
+      if (depths.has(current.id)) {
+        base = depths.get(current.id)!;
+        break;
+      }
+      // A reply cycle never reaches an anchor
+      if (onChain.has(current.id)) break;
+      chain.push(current);
+      onChain.add(current.id);
+
+      const parentId = current.in_reply_to_tweet_id;
+      if (parentId && depths.has(parentId)) {
+        base = depths.get(parentId)!;
+        break;
+      }
+      current = parentId ? byId.get(parentId) : undefined;
+    }
+
+    for (let i = chain.length - 1; i >= 0; i--) {
+      base = isAnchor(chain[i]) ? 0 : base + 1;
+      depths.set(chain[i].id, base);
+    }
+    return depths.get(start.id)!;
+  };
+
+  return tweets.filter(tweet => depthOf(tweet) <= maxDepth);
+};
@@ -0,0 +1,164 @@
+import { savedStore } from './savedStore';
+import { SaveTweetsResult, Tweet } from './types';
+
+// Copies of deleted saved tweets, kept in IndexedDB for a while so deletes
+// can be undone. The tweets themselves are deleted from storage right away;
+// restoring saves them again, purging only drops the copy.
+
+const DB_NAME = 'tweet-manager-trash';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+export const TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+export type TrashKind = 'tweet' | 'thread' | 'selection' | 'user';
+
+export interface TrashEntry {
+  id: string;
+  kind: TrashKind;
+  // What was deleted, e.g. "Thread with 5 tweets"
+  label: string;
+  tweets: Tweet[];
+  deletedAt: string;
+  expiresAt: string;
+}
+
+const TRASH_ERROR_NAME = 'TrashError';
+
+// The trash couldn't keep a copy, so the delete was not attempted
+export const createTrashError = (message: string): Error => {
+  const error = new Error(message);
+  error.name = TRASH_ERROR_NAME;
+  return error;
+};
+
+export const isTrashError = (error: unknown): error is Error =>
+  error instanceof Error && error.name === TRASH_ERROR_NAME;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('The trash is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+// Resolves once the transaction is committed, so a write that is later
+// aborted (e.g. over quota) is never reported as done
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || request.error);
+  });
+};
+
+const isExpired = (entry: TrashEntry) => new Date(entry.expiresAt).getTime() <= Date.now();
+
+// Keep a copy of tweets that were just deleted. Resolves to the new entry,
+// or null if there was nothing to keep.
+export const moveToTrash = async (kind: TrashKind, label: string, tweets: Tweet[]): Promise<TrashEntry | null> => {
+  if (tweets.length === 0) return null;
+
+  const deletedAt = new Date();
+  const entry: TrashEntry = {
+    id: `${deletedAt.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    label,
+    tweets,
+    deletedAt: deletedAt.toISOString(),
+    expiresAt: new Date(deletedAt.getTime() + TRASH_RETENTION_MS).toISOString(),
+  };
+
+  await runTransaction('readwrite', store => store.put(entry));
+  return entry;
+};
+
+// Narrow an entry down to the tweets that were actually deleted. Resolves to
+// the updated entry, or null (and the entry is dropped) if none were.
+export const keepInTrash = async (entry: TrashEntry, tweets: Tweet[]): Promise<TrashEntry | null> => {
+  if (tweets.length === 0) {
+    await purgeTrashEntry(entry.id);
+    return null;
+  }
+  if (tweets.length === entry.tweets.length) return entry;
+
+  const updated = { ...entry, tweets };
+  await runTransaction('readwrite', store => store.put(updated));
+  return updated;
+};
+
+// Newest first. Entries past the retention window are purged on the way.
+export const listTrash = async (): Promise<TrashEntry[]> => {
+  const entries = await runTransaction<TrashEntry[]>('readonly', store => store.getAll());
+  const expired = entries.filter(isExpired);
+
+  for (const entry of expired) {
+    await purgeTrashEntry(entry.id);
+  }
+
+  return entries
+    .filter(entry => !isExpired(entry))
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
+
+// Save the entry's tweets again, each for the user who saved it, then drop
+// the entry. Tweets saved again since the delete are left alone.
+export const restoreTrashEntry = async (id: string): Promise<SaveTweetsResult> => {
+  const entry = await runTransaction<TrashEntry | undefined>('readonly', store => store.get(id));
+  if (!entry) throw new Error('This item is no longer in the trash');
+
+  const byUser = new Map<string, Tweet[]>();
+  entry.tweets.forEach(tweet => {
+    const username = tweet.savedBy || 'anonymous';
+    byUser.set(username, [...(byUser.get(username) || []), tweet]);
+  });
+
+  const result: SaveTweetsResult = { count: 0, skippedCount: 0 };
+  for (const [username, tweets] of byUser) {
+    const saved = await savedStore.saveTweets(tweets, username, {
+      preserveExisting: true,
+      skipDuplicates: true,
+      preserveThreadOrder: true,
+    });
+    result.count += saved.count;
+    result.skippedCount = (result.skippedCount || 0) + (saved.skippedCount || 0);
+  }
+
+  await purgeTrashEntry(id);
+  return result;
+};
+
+export const purgeTrashEntry = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', store => store.delete(id));
+};
+
+export const emptyTrash = async (): Promise<void> => {
+  await runTransaction('readwrite', store => store.clear());
+};
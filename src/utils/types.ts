@@ -1,3 +1,5 @@
+import type { RequestPriority } from './scheduler';
+
 export interface Tweet {
   id: string;
   author: User;
@@ -70,6 +72,8 @@ export interface Thread {
   created_at?: string;
   isSelected?: boolean;
   savedAt?: Date | string;
+  // Grouped by hand (see threadOverrides.ts)
+  isManual?: boolean;
 }
 
 export interface TwitterUser {
@@ -78,6 +82,7 @@ export interface TwitterUser {
   username: string;
   profile_image_url: string;
   description?: string;
+  protected?: boolean;
   public_metrics?: {
     followers_count: number;
     following_count: number;
@@ -86,17 +91,86 @@ export interface TwitterUser {
   };
 }
 
-export interface TwitterResponse {
-  data: Tweet[];
+// Tweet object as returned by the official X API v2
+export interface TwitterApiTweet {
+  id: string;
+  text: string;
+  author_id?: string;
+  created_at?: string;
+  conversation_id?: string;
+  in_reply_to_user_id?: string;
+  referenced_tweets?: {
+    type: 'replied_to' | 'quoted' | 'retweeted';
+    id: string;
+  }[];
+  attachments?: {
+    media_keys?: string[];
+  };
+  public_metrics?: {
+    retweet_count: number;
+    reply_count: number;
+    like_count: number;
+    quote_count: number;
+  };
+  note_tweet?: {
+    text: string;
+  };
+}
+
+// v2 media objects match our Media shape, plus video variants
+export interface TwitterApiMedia extends Omit<Media, 'url'> {
+  url?: string;
+  variants?: {
+    bit_rate?: number;
+    content_type: string;
+    url: string;
+  }[];
+}
+
+export interface TwitterResponse<T = TwitterApiTweet[]> {
+  data: T;
   includes?: {
-    media?: Media[];
+    media?: TwitterApiMedia[];
     users?: TwitterUser[];
-    tweets?: Tweet[];
+    tweets?: TwitterApiTweet[];
   };
-  meta: {
+  meta?: {
     result_count: number;
     next_token?: string;
   };
+  errors?: {
+    title: string;
+    detail?: string;
+    type?: string;
+  }[];
+}
+
+// Account as resolved by a tweet data source
+export interface TweetSourceUser {
+  id: string;
+  username: string;
+  name?: string;
+  profile_image_url?: string;
+  protected?: boolean; // Tweets are only visible to approved followers
+}
+
+// One page of tweets plus the cursor for the next page, if any
+export interface TweetPage {
+  tweets: Tweet[];
+  cursor?: string | null;
+}
+
+// Provider that turns a tweet API (RapidAPI, fixtures, ...) into our Tweet objects.
+// Every call takes an optional AbortSignal that cancels the underlying request.
+export interface TweetSource {
+  name: string;
+  getUser: (username: string, signal?: AbortSignal) => Promise<TweetSourceUser | null>;
+  // Without a cursor this returns the first page of the timeline
+  getUserTweets: (user: TweetSourceUser, options: { limit: number; cursor?: string }, signal?: AbortSignal) => Promise<TweetPage>;
+  getReplies: (tweetId: string, cursor?: string, signal?: AbortSignal) => Promise<TweetPage>;
+  // Lookups are user-initiated ('interactive') unless a crawl asks otherwise
+  getTweet: (tweetId: string, signal?: AbortSignal, priority?: RequestPriority) => Promise<Tweet | null>;
+  getContinuation: (tweetId: string, signal?: AbortSignal) => Promise<Tweet | null>;
 }
 
 export type TweetCategory = 'all' | 'normal' | 'thread' | 'long';
@@ -112,3 +186,32 @@ export interface PaginationState {
   totalItems: number;
   itemsPerPage: number;
 }
+
+// Saved tweets backend (see backend.ts)
+export interface ApiResponse {
+  success: boolean;
+  count: number;
+  data: (Tweet | Thread)[];
+}
+
+export interface SavedUser {
+  username: string;
+  tweetCount: number;
+  lastSaved?: {
+    savedAt: string;
+    author?: {
+      profile_image_url?: string;
+    };
+  };
+}
+
+export interface SaveTweetsResult {
+  count: number;
+  skippedCount?: number;
+}
+
+// Outcome of deleting several saved tweets, per id
+export interface DeleteTweetsResult {
+  deleted: string[];
+  failed: { id: string; error: string }[];
+}
@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TWEET_SOURCE?: 'rapidapi' | 'fixture' | 'x-v2';
+  readonly VITE_TWEET_FIXTURES?: string;
+  readonly VITE_X_API_PROXY_URL?: string;
+  readonly VITE_API_MODE?: 'proxy' | 'direct';
+  readonly VITE_API_PROXY_URL?: string;
+  readonly VITE_RAPIDAPI_KEY?: string;
+  readonly VITE_DAILY_CALL_BUDGET?: string;
+  readonly VITE_BACKEND_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -10,6 +10,23 @@ export default defineConfig(({ mode }) => ({
     allowedHosts: ['app.brandout.ai'],
     // Enable history fallback for SPA routing
     historyApiFallback: true,
+    // Same-origin tweet API proxy; defaults to the local fixture stand-in
+    // (npm run proxy:fixtures)
+    proxy: {
+      '/api/twitter': {
+        target: process.env.API_PROXY_TARGET || 'http://localhost:8787',
+        changeOrigin: true,
+      },
+      // X API v2, with the bearer token added here rather than in the bundle
+      '/api/x': {
+        target: 'https://api.twitter.com',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/x/, '/2'),
+        headers: {
+          Authorization: `Bearer ${process.env.X_BEARER_TOKEN || ''}`,
+        },
+      },
+    },
   },
   plugins: [
     react(),